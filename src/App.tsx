@@ -1,35 +1,43 @@
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
-import './App.css'
+import { useEffect, useMemo, useState } from 'react';
+import { DATASETS, findDataset, withStoredDatasets } from './datasets';
+import GroceryAnalysis from './GroceryAnalysis';
+import { useRoute } from './router';
+import { listStoredDatasets } from './uploads';
+import type { StoredDataset } from './uploads';
 
-function App() {
-  const [count, setCount] = useState(0)
+const App = () => {
+  const [route, navigate] = useRoute(DATASETS[0].id);
+  const [stored, setStored] = useState<StoredDataset[] | null>(null);
+  const datasets = useMemo(() => withStoredDatasets(stored ?? []), [stored]);
+
+  const refreshDatasets = async () => {
+    try {
+      setStored(await listStoredDatasets());
+    } catch (error) {
+      console.error("Error listing datasets:", error);
+      setStored([]);
+    }
+  };
+
+  useEffect(() => {
+    refreshDatasets();
+  }, []);
+
+  // Wait for the stored datasets, so a link to one of them isn't sent to
+  // the first dataset while the list is still loading.
+  if (!stored) return null;
+  const dataset = findDataset(datasets, route.dataset);
 
   return (
-    <>
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      <h1>Vite + React</h1>
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
-  )
-}
+    <GroceryAnalysis
+      key={dataset.id}
+      dataset={dataset}
+      datasets={datasets}
+      route={{ ...route, dataset: dataset.id }}
+      onNavigate={navigate}
+      onDatasetsChange={refreshDatasets}
+    />
+  );
+};
 
-export default App
+export default App;
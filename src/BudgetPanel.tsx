@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BUDGET_PERIOD_LABELS, burnDown } from './engine';
+import type { Budget, BudgetPeriod, BudgetSummary, ReceiptLine } from './engine';
+import { formatCurrency } from './format';
+
+interface BudgetPanelProps {
+  lines: ReceiptLine[];
+  categories: string[];
+  budgets: Budget[];
+  summaries: BudgetSummary[];
+  onChange: (budgets: Budget[]) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+
+const BurnDownChart = ({ lines, summary }: { lines: ReceiptLine[]; summary: BudgetSummary }) => {
+  const points = useMemo(() => burnDown(lines, summary, summary.current.asOf), [lines, summary]);
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="date" tickFormatter={(date) => String(date).substring(5)} />
+          <YAxis tickFormatter={(value) => formatCurrency(Number(value))} />
+          <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+          <Legend />
+          <Line type="monotone" dataKey="ideal" name="Even pace" stroke="#82CA9D" strokeDasharray="5 5" dot={false} />
+          <Line type="stepAfter" dataKey="remaining" name="Left" stroke="#8884d8" connectNulls={false} />
+          <Line type="monotone" dataKey="projected" name="Projected" stroke="#FF6B6B" strokeDasharray="3 3" dot={false} connectNulls={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const BudgetPanel = ({ lines, categories, budgets, summaries, onChange }: BudgetPanelProps) => {
+  const [selected, setSelected] = useState('');
+  const budgetFor = (category: string) => budgets.find(budget => budget.category === category);
+  const summaryFor = (category: string) => summaries.find(summary => summary.category === category);
+  const charted = summaryFor(selected) ?? summaries[0];
+  const warnings = summaries.filter(summary => summary.current.onPaceToOvershoot);
+
+  // An empty or zero amount drops the budget; the period is kept while it stays.
+  const setBudget = (category: string, changes: Partial<Budget>) => {
+    const budget: Budget = { category, period: 'week', amount: 0, ...budgetFor(category), ...changes };
+    const others = budgets.filter(current => current.category !== category);
+    onChange(budget.amount > 0 ? [...others, budget] : others);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Budgets</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Set a weekly or monthly budget per category. The current period is the one holding the latest purchase, and
+        its projection assumes spending keeps the pace it has had so far.
+      </p>
+
+      {warnings.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {warnings.map(summary => (
+            <li key={summary.category} className="p-3 rounded-lg bg-orange-50 text-orange-700 text-sm">
+              <span className="font-semibold">{summary.category}</span>{' '}
+              {summary.current.overBudget ? 'is already over' : 'is on pace to overshoot'} its{' '}
+              {formatCurrency(summary.amount)} {summary.period === 'week' ? 'weekly' : 'monthly'} budget: {formatCurrency(summary.current.spent)} spent,{' '}
+              {formatCurrency(summary.current.projected)} projected by {summary.current.to}.
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Category</th>
+              <th className={`${headerClass} text-left`}>Period</th>
+              <th className={`${headerClass} text-right`}>Budget</th>
+              <th className={`${headerClass} text-right`}>Spent This Period</th>
+              <th className={`${headerClass} text-right`}>Projected</th>
+              <th className={`${headerClass} text-right`}>Avg per Period</th>
+              <th className={`${headerClass} text-right`}>Periods Over</th>
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map(category => {
+              const budget = budgetFor(category);
+              const summary = summaryFor(category);
+              return (
+                <tr key={category} className="hover:bg-gray-100">
+                  <td className={cellClass}>{category}</td>
+                  <td className={cellClass}>
+                    <select
+                      value={budget?.period ?? 'week'}
+                      onChange={(e) => budget && setBudget(category, { period: e.target.value as BudgetPeriod })}
+                      disabled={!budget}
+                      className={`${inputClass} text-sm`}
+                    >
+                      {Object.entries(BUDGET_PERIOD_LABELS).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                    </select>
+                  </td>
+                  <td className={`${cellClass} text-right`}>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={budget?.amount ?? ''}
+                      onChange={(e) => setBudget(category, { amount: Math.max(0, Number(e.target.value)) })}
+                      placeholder="None"
+                      className={`${inputClass} w-24 text-right`}
+                    />
+                  </td>
+                  {summary ? (
+                    <>
+                      <td className={`${cellClass} text-right ${summary.current.overBudget ? 'text-red-600 font-semibold' : ''}`}>
+                        {formatCurrency(summary.current.spent)}
+                      </td>
+                      <td className={`${cellClass} text-right ${summary.current.onPaceToOvershoot ? 'text-orange-600 font-semibold' : ''}`}>
+                        {formatCurrency(summary.current.projected)}
+                      </td>
+                      <td className={`${cellClass} text-right ${summary.averageSpent > summary.amount ? 'text-red-600' : ''}`}>
+                        {formatCurrency(summary.averageSpent)}
+                      </td>
+                      <td className={`${cellClass} text-right`}>{summary.periodsOver} of {summary.periods.length}</td>
+                    </>
+                  ) : (
+                    <td colSpan={4} className={`${cellClass} text-right text-gray-400`}>—</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {charted && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold">
+              Burn-down: {charted.current.from} to {charted.current.to}
+            </h3>
+            <select value={charted.category} onChange={(e) => setSelected(e.target.value)} className={`${inputClass} text-sm`}>
+              {summaries.map(summary => <option key={summary.category} value={summary.category}>{summary.category}</option>)}
+            </select>
+          </div>
+          <BurnDownChart lines={lines} summary={charted} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
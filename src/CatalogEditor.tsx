@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import {
+  addProduct,
+  assignAlias,
+  normalizeItemName,
+  removeAlias,
+  removeProduct,
+  suggestProducts,
+  unmappedItems,
+  updateProduct
+} from './engine';
+import type { Catalog, ReceiptLine } from './engine';
+
+interface CatalogEditorProps {
+  catalog: Catalog;
+  lines: ReceiptLine[];
+  onChange: (catalog: Catalog) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'w-full px-2 py-1 border rounded border-transparent hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const CatalogEditor = ({ catalog, lines, onChange }: CatalogEditorProps) => {
+  const [filter, setFilter] = useState('');
+
+  // How often and where each raw name was bought, for context while mapping.
+  const usage = useMemo(() => {
+    const names: Record<string, { count: number; stores: Set<string>; category: string }> = {};
+    lines.forEach(line => {
+      const name = normalizeItemName(line.rawItem ?? line.item);
+      if (!names[name]) names[name] = { count: 0, stores: new Set(), category: line.category };
+      names[name].count++;
+      names[name].stores.add(line.store);
+    });
+    return names;
+  }, [lines]);
+
+  const term = filter.trim().toUpperCase();
+  const unmapped = unmappedItems(lines, catalog)
+    .filter(name => !term || name.includes(term))
+    .sort((a, b) => (usage[b]?.count ?? 0) - (usage[a]?.count ?? 0));
+  const products = catalog.products
+    .filter(product => !term || product.name.toUpperCase().includes(term) ||
+      Object.entries(catalog.aliases).some(([alias, id]) => id === product.id && alias.includes(term)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const createProduct = (raw: string) => {
+    onChange(addProduct(catalog, { name: raw, brand: '', category: usage[raw]?.category ?? '' }, [raw]));
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter receipt names and products"
+          className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-bold mb-2">Unmapped Receipt Names ({unmapped.length})</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Link each name to a product so purchases under different spellings and stores add up together.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>Receipt Name</th>
+                <th className={headerClass}>Bought</th>
+                <th className={headerClass}>Suggestions</th>
+                <th className={headerClass}>Assign</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unmapped.map(raw => (
+                <tr key={raw} className="hover:bg-gray-100">
+                  <td className={`${cellClass} font-mono`}>{raw}</td>
+                  <td className={cellClass}>
+                    {usage[raw]?.count ?? 0}× at {[...(usage[raw]?.stores ?? [])].join(', ')}
+                  </td>
+                  <td className={cellClass}>
+                    {suggestProducts(catalog, raw).map(suggestion => (
+                      <button
+                        key={suggestion.product.id}
+                        onClick={() => onChange(assignAlias(catalog, raw, suggestion.product.id))}
+                        className="mr-1 mb-1 px-2 py-0.5 rounded bg-blue-100 text-blue-700 hover:bg-blue-200 text-xs"
+                      >
+                        {suggestion.product.name} ({Math.round(suggestion.score * 100)}%)
+                      </button>
+                    ))}
+                  </td>
+                  <td className={cellClass}>
+                    <div className="flex gap-2">
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && onChange(assignAlias(catalog, raw, e.target.value))}
+                        className="px-2 py-1 border rounded"
+                      >
+                        <option value="">Existing product…</option>
+                        {catalog.products.map(product => (
+                          <option key={product.id} value={product.id}>{product.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => createProduct(raw)}
+                        className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 text-sm whitespace-nowrap"
+                      >
+                        New Product
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-4">Products ({catalog.products.length})</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>Display Name</th>
+                <th className={headerClass}>Brand</th>
+                <th className={headerClass}>Default Category</th>
+                <th className={headerClass}>Receipt Names</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {products.map(product => (
+                <tr key={product.id} className="hover:bg-gray-100 align-top">
+                  <td className={cellClass}>
+                    <input
+                      type="text"
+                      value={product.name}
+                      onChange={(e) => onChange(updateProduct(catalog, product.id, { name: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className={cellClass}>
+                    <input
+                      type="text"
+                      value={product.brand}
+                      onChange={(e) => onChange(updateProduct(catalog, product.id, { brand: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className={cellClass}>
+                    <input
+                      type="text"
+                      value={product.category}
+                      onChange={(e) => onChange(updateProduct(catalog, product.id, { category: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className={cellClass}>
+                    {Object.entries(catalog.aliases)
+                      .filter(([, id]) => id === product.id)
+                      .map(([alias]) => (
+                        <span key={alias} className="inline-flex items-center mr-1 mb-1 px-2 py-0.5 rounded bg-gray-100 font-mono text-xs">
+                          {alias}
+                          <button
+                            onClick={() => onChange(removeAlias(catalog, alias))}
+                            className="ml-1 text-gray-400 hover:text-red-600"
+                            aria-label={`Unlink ${alias}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                  </td>
+                  <td className={cellClass}>
+                    <button
+                      onClick={() => onChange(removeProduct(catalog, product.id))}
+                      className="text-sm text-red-600 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CatalogEditor;
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import { DEFAULT_CATEGORY_RULES, assignCategory, findMiscategorized, unassignCategory } from './engine';
+import type { CategoryRule, CategorySettings, ReceiptLine } from './engine';
+
+interface CategoryReviewProps {
+  lines: ReceiptLine[];
+  settings: CategorySettings;
+  categories: string[];
+  onChange: (settings: CategorySettings) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+
+const CategoryReview = ({ lines, settings, categories, onChange }: CategoryReviewProps) => {
+  const [newRule, setNewRule] = useState<CategoryRule>({ keyword: '', category: '' });
+  const flagged = useMemo(() => findMiscategorized(lines, settings), [lines, settings]);
+  const assigned = Object.entries(settings.assignments).sort(([a], [b]) => a.localeCompare(b));
+
+  const setRules = (rules: CategoryRule[]) => onChange({ ...settings, rules });
+  const updateRule = (index: number, change: Partial<CategoryRule>) =>
+    setRules(settings.rules.map((entry, position) => position === index ? { ...entry, ...change } : entry));
+
+  const addRule = () => {
+    if (!newRule.keyword.trim() || !newRule.category.trim()) return;
+    setRules([...settings.rules, { keyword: newRule.keyword.trim(), category: newRule.category.trim() }]);
+    setNewRule({ keyword: '', category: '' });
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mt-6">
+        <h2 className="text-xl font-bold mb-2">Probably Miscategorized ({flagged.length})</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Items filed under different categories on different trips, or only under Other while a rule suggests a category.
+          Picking a category files every purchase of the item under it.
+        </p>
+        {flagged.length === 0 ? (
+          <p className="text-gray-600">Every item is filed consistently.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className={headerClass}>Receipt Name</th>
+                  <th className={headerClass}>Filed Under</th>
+                  <th className={headerClass}>Fix</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flagged.map(entry => (
+                  <tr key={entry.item} className="hover:bg-gray-100">
+                    <td className={`${cellClass} font-mono`}>{entry.item}</td>
+                    <td className={cellClass}>
+                      {entry.uses.map(use => `${use.category} (${use.trips} ${use.trips === 1 ? 'trip' : 'trips'})`).join(', ')}
+                    </td>
+                    <td className={cellClass}>
+                      {[...new Set([entry.suggested, ...entry.uses.map(use => use.category)])].map(category => (
+                        <button
+                          key={category}
+                          onClick={() => onChange(assignCategory(settings, entry.item, category))}
+                          className={`mr-1 mb-1 px-2 py-0.5 rounded text-xs ${category === entry.suggested
+                            ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                        >
+                          Use {category}
+                        </button>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {assigned.length > 0 && (
+        <div className="bg-white p-4 rounded-lg shadow mt-6">
+          <h2 className="text-xl font-bold mb-4">Assigned Categories ({assigned.length})</h2>
+          <table className="min-w-full bg-white">
+            <tbody>
+              {assigned.map(([item, category]) => (
+                <tr key={item} className="hover:bg-gray-100">
+                  <td className={`${cellClass} font-mono`}>{item}</td>
+                  <td className={cellClass}>{category}</td>
+                  <td className={`${cellClass} text-right`}>
+                    <button onClick={() => onChange(unassignCategory(settings, item))} className="text-sm text-red-600 hover:underline">
+                      Undo
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-lg shadow mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold">Category Rules ({settings.rules.length})</h2>
+          <button onClick={() => setRules(DEFAULT_CATEGORY_RULES)} className="text-sm text-blue-600 hover:underline">
+            Reset to Defaults
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Lines imported without a category take the one the item was filed under before, or else the first rule whose
+          words all appear in the name. Abbreviations like ALM and ORG are spelled out before matching.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>Keyword</th>
+                <th className={headerClass}>Category</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.rules.map((entry, index) => (
+                <tr key={index} className="hover:bg-gray-100">
+                  <td className={cellClass}>
+                    <input type="text" value={entry.keyword} onChange={(e) => updateRule(index, { keyword: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className={cellClass}>
+                    <input
+                      type="text"
+                      list="rule-categories"
+                      value={entry.category}
+                      onChange={(e) => updateRule(index, { category: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className={`${cellClass} text-right`}>
+                    <button onClick={() => setRules(settings.rules.filter((_, position) => position !== index))} className="text-sm text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="rule-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+        <div className="flex gap-2 mt-4">
+          <input
+            type="text"
+            value={newRule.keyword}
+            onChange={(e) => setNewRule({ ...newRule, keyword: e.target.value })}
+            placeholder="Keyword"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            list="rule-categories"
+            value={newRule.category}
+            onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && addRule()}
+            placeholder="Category"
+            className={inputClass}
+          />
+          <button onClick={addRule} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+            Add Rule
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CategoryReview;
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { columnNames, FIELD_LABELS, guessMapping, mappingProblems, RECEIPT_FIELDS } from './engine';
+import type { ColumnMapping, ReceiptField } from './engine';
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  rows: string[][];
+  initialMapping: ColumnMapping;
+  initialSource: string;
+  onConfirm: (mapping: ColumnMapping, source: string, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+const ColumnMappingStep = ({ fileName, rows, initialMapping, initialSource, onConfirm, onCancel }: ColumnMappingStepProps) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [source, setSource] = useState(initialSource);
+  const [remember, setRemember] = useState(true);
+
+  const columns = columnNames(rows, mapping.hasHeader);
+  const previewRows = (mapping.hasHeader ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS);
+  const problems = mappingProblems(mapping);
+
+  const assignField = (index: number, field: ReceiptField | null) => {
+    const fields = columns.map((_, column) => mapping.fields[column] ?? null);
+    fields[index] = field;
+    setMapping({ ...mapping, fields });
+  };
+
+  const toggleHeader = (hasHeader: boolean) => {
+    // Re-run matching so switching the header on picks up the column names.
+    const guessed = guessMapping(rows);
+    setMapping(hasHeader && guessed.hasHeader ? guessed : { ...mapping, hasHeader });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Map Columns</h2>
+      <p className="mb-4 text-gray-600">
+        Choose which field each column of <span className="font-semibold">{fileName}</span> holds, or skip it.
+        Date, Item and Total are required.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-6 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={mapping.hasHeader}
+            onChange={(e) => toggleHeader(e.target.checked)}
+          />
+          First row is a header
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Source
+          <input
+            type="text"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="px-2 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={remember}
+            onChange={(e) => setRemember(e.target.checked)}
+          />
+          Remember this mapping for {source || 'this source'}
+        </label>
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              {columns.map((column, index) => (
+                <th key={index} className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">
+                  <div className="mb-1">{column}</div>
+                  <select
+                    value={mapping.fields[index] ?? ''}
+                    onChange={(e) => assignField(index, (e.target.value || null) as ReceiptField | null)}
+                    className="w-full px-2 py-1 border rounded font-normal"
+                  >
+                    <option value="">Skip</option>
+                    {RECEIPT_FIELDS.map(field => (
+                      <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="hover:bg-gray-100">
+                {columns.map((_, index) => (
+                  <td key={index} className={`py-2 px-4 border-b border-gray-200 text-sm ${mapping.fields[index] ? 'text-gray-700' : 'text-gray-400'}`}>
+                    {row[index]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="mb-4 text-sm text-red-600">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(mapping, source.trim(), remember)}
+          disabled={problems.length > 0}
+          className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded transition duration-300"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
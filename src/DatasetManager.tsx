@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { isBuiltIn } from './datasets';
+import type { LoadedFile } from './datasets';
+import type { Dataset } from './engine';
+import { deleteStoredDataset, newId, saveStoredDataset, updateStoredDataset } from './uploads';
+
+interface DatasetManagerProps {
+  datasets: Dataset[];
+  dataset: Dataset;
+  files: LoadedFile[];
+  onOpen: (id: string) => void;
+  onDatasetsChange: () => Promise<void>;
+  onReimportFile: (id: string) => void;
+  onRemoveFile: (id: string) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+const linkClass = 'text-sm text-blue-600 hover:underline';
+
+const DatasetManager = ({ datasets, dataset, files, onOpen, onDatasetsChange, onReimportFile, onRemoveFile }: DatasetManagerProps) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const createDataset = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const id = `upload-${newId()}`;
+    try {
+      await saveStoredDataset({ id, name, files: [], createdAt: new Date().toISOString() });
+      await onDatasetsChange();
+      setNewName('');
+      onOpen(id);
+    } catch (error) {
+      console.error("Error creating dataset:", error);
+    }
+  };
+
+  const renameDataset = async () => {
+    if (!renaming?.name.trim()) return;
+    const name = renaming.name.trim();
+    try {
+      await updateStoredDataset(renaming.id, name, stored => ({ ...stored, name }));
+      await onDatasetsChange();
+      setRenaming(null);
+    } catch (error) {
+      console.error("Error renaming dataset:", error);
+    }
+  };
+
+  const deleteDataset = async (target: Dataset) => {
+    if (!window.confirm(`Delete ${target.name} and every file uploaded into it?`)) return;
+    try {
+      await deleteStoredDataset(target.id);
+      await onDatasetsChange();
+      if (target.id === dataset.id) onOpen(datasets[0].id);
+    } catch (error) {
+      console.error("Error deleting dataset:", error);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-bold mb-2">Datasets</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Uploaded files are kept in this browser. Add each week's CSV to the same dataset to build up the season.
+        </p>
+        <table className="min-w-full bg-white">
+          <tbody>
+            {datasets.map(entry => (
+              <tr key={entry.id} className={`hover:bg-gray-100 ${entry.id === dataset.id ? 'bg-blue-50' : ''}`}>
+                <td className={cellClass}>
+                  {renaming?.id === entry.id ? (
+                    <input
+                      type="text"
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && renameDataset()}
+                      className={inputClass}
+                      autoFocus
+                    />
+                  ) : (
+                    <span className={entry.id === dataset.id ? 'font-semibold' : ''}>{entry.name}</span>
+                  )}
+                  {isBuiltIn(entry) && <span className="ml-2 text-gray-500">built in</span>}
+                </td>
+                <td className={`${cellClass} text-right space-x-4`}>
+                  {entry.id !== dataset.id && <button onClick={() => onOpen(entry.id)} className={linkClass}>Open</button>}
+                  {!isBuiltIn(entry) && (renaming?.id === entry.id ? (
+                    <>
+                      <button onClick={renameDataset} className={linkClass}>Save</button>
+                      <button onClick={() => setRenaming(null)} className={linkClass}>Cancel</button>
+                    </>
+                  ) : (
+                    <button onClick={() => setRenaming({ id: entry.id, name: entry.name })} className={linkClass}>Rename</button>
+                  ))}
+                  {!isBuiltIn(entry) && (
+                    <button onClick={() => deleteDataset(entry)} className="text-sm text-red-600 hover:underline">Delete</button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-2 mt-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createDataset()}
+            placeholder="New dataset name"
+            className={inputClass}
+          />
+          <button onClick={createDataset} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+            New Dataset
+          </button>
+        </div>
+      </div>
+
+      {files.length > 0 && (
+        <div className="bg-white p-4 rounded-lg shadow mb-6">
+          <h2 className="text-xl font-bold mb-4">Files in {dataset.name}</h2>
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>File</th>
+                <th className={`${headerClass} text-right`}>Lines</th>
+                <th className={`${headerClass} text-right`}>Duplicates Skipped</th>
+                <th className={`${headerClass} text-right`}>Issues</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {files.map(file => (
+                <tr key={file.id} className="hover:bg-gray-100">
+                  <td className={`${cellClass} font-mono`}>{file.fileName}</td>
+                  <td className={`${cellClass} text-right`}>{file.result.lines.length}</td>
+                  <td className={`${cellClass} text-right`}>{file.duplicates.length}</td>
+                  <td className={`${cellClass} text-right`}>{file.result.issues.length}</td>
+                  <td className={`${cellClass} text-right space-x-4`}>
+                    <button onClick={() => onReimportFile(file.id)} className={linkClass}>Re-import</button>
+                    {file.stored && (
+                      <button onClick={() => onRemoveFile(file.id)} className="text-sm text-red-600 hover:underline">Remove</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DatasetManager;
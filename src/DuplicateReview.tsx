@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import type { DuplicateTrip, SuspectedDuplicate } from './engine';
+import { formatCurrency } from './format';
+
+interface DuplicateReviewProps {
+  fileName: string;
+  trips: DuplicateTrip[];
+  onConfirm: (duplicates: string[]) => void; // keys of the lines to leave out
+  onCancel: () => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const duplicateId = (duplicate: SuspectedDuplicate) => `${duplicate.key}#${duplicate.occurrence}`;
+
+// Every suspected duplicate starts out skipped; unticking one keeps it, for a
+// receipt that really did ring the same thing up again.
+const DuplicateReview = ({ fileName, trips, onConfirm, onCancel }: DuplicateReviewProps) => {
+  const [kept, setKept] = useState<Record<string, boolean>>({});
+
+  const setTripKept = (trip: DuplicateTrip, keep: boolean) => {
+    const next = { ...kept };
+    trip.duplicates.forEach(duplicate => { next[duplicateId(duplicate)] = keep; });
+    setKept(next);
+  };
+
+  const skipped = trips.flatMap(trip => trip.duplicates).filter(duplicate => !kept[duplicateId(duplicate)]);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Review Duplicates</h2>
+      <p className="mb-4 text-gray-600">
+        <span className="font-semibold">{fileName}</span> has {trips.length} {trips.length === 1 ? 'receipt' : 'receipts'} that
+        {trips.length === 1 ? ' was' : ' were'} already imported. Ticked lines are left out of the merge. Lines repeated on a
+        receipt are only flagged as often as the imported receipt already has them.
+      </p>
+
+      {trips.map(trip => (
+        <div key={`${trip.date}|${trip.store}`} className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">
+              {trip.date} · {trip.store}{' '}
+              <span className={`text-sm font-normal ${trip.overlap === 'identical' ? 'text-red-600' : 'text-yellow-700'}`}>
+                {trip.overlap === 'identical'
+                  ? `identical to the imported receipt (${trip.incomingLines} lines)`
+                  : `${trip.duplicates.length} of ${trip.incomingLines} lines match the imported receipt (${trip.existingLines} lines)`}
+              </span>
+            </h3>
+            <div className="space-x-4">
+              <button onClick={() => setTripKept(trip, false)} className="text-sm text-blue-600 hover:underline">Skip All</button>
+              <button onClick={() => setTripKept(trip, true)} className="text-sm text-blue-600 hover:underline">Keep All</button>
+            </div>
+          </div>
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>Skip</th>
+                <th className={`${headerClass} text-left`}>Item</th>
+                <th className={`${headerClass} text-right`}>Quantity</th>
+                <th className={`${headerClass} text-right`}>Total</th>
+                <th className={`${headerClass} text-right`}>Copy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trip.duplicates.map(duplicate => {
+                const id = duplicateId(duplicate);
+                return (
+                  <tr key={id} className="hover:bg-gray-100">
+                    <td className={`${cellClass} text-center`}>
+                      <input
+                        type="checkbox"
+                        checked={!kept[id]}
+                        onChange={(e) => setKept({ ...kept, [id]: !e.target.checked })}
+                      />
+                    </td>
+                    <td className={cellClass}>{duplicate.line.item}</td>
+                    <td className={`${cellClass} text-right`}>{duplicate.line.quantity} {duplicate.line.unit}</td>
+                    <td className={`${cellClass} text-right`}>{formatCurrency(duplicate.line.total)}</td>
+                    <td className={`${cellClass} text-right`}>
+                      {duplicate.copies > 1 || duplicate.existingCopies > 1
+                        ? `${duplicate.occurrence} of ${duplicate.copies} (${duplicate.existingCopies} imported)`
+                        : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(skipped.map(duplicate => duplicate.key))}
+          className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition duration-300"
+        >
+          Merge, Skipping {skipped.length} {skipped.length === 1 ? 'Line' : 'Lines'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
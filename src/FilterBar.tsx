@@ -0,0 +1,143 @@
+import { hasActiveFilters, toggleFilter } from './engine';
+import type { LineFilters } from './engine';
+
+interface FilterBarProps {
+  filters: LineFilters;
+  stores: string[];
+  categories: string[];
+  tags: string[];
+  onChange: (filters: LineFilters) => void;
+}
+
+interface Chip {
+  key: string;
+  label: string;
+  remove: () => LineFilters;
+}
+
+const chipsFor = (filters: LineFilters): Chip[] => [
+  ...(filters.from ? [{ key: 'from', label: `From ${filters.from}`, remove: () => ({ ...filters, from: undefined }) }] : []),
+  ...(filters.to ? [{ key: 'to', label: `To ${filters.to}`, remove: () => ({ ...filters, to: undefined }) }] : []),
+  ...(filters.stores ?? []).map(store => ({
+    key: `store:${store}`,
+    label: store,
+    remove: () => toggleFilter(filters, 'stores', store)
+  })),
+  ...(filters.categories ?? []).map(category => ({
+    key: `category:${category}`,
+    label: category,
+    remove: () => toggleFilter(filters, 'categories', category)
+  })),
+  ...(filters.tags ?? []).map(tag => ({
+    key: `tag:${tag}`,
+    label: `#${tag}`,
+    remove: () => toggleFilter(filters, 'tags', tag)
+  })),
+  ...(filters.item?.trim() ? [{ key: 'item', label: `"${filters.item.trim()}"`, remove: () => ({ ...filters, item: undefined }) }] : [])
+];
+
+const optionClass = (active: boolean) =>
+  `px-2 py-1 rounded text-sm border transition duration-300 ${
+    active ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+  }`;
+
+const FilterBar = ({ filters, stores, categories, tags, onChange }: FilterBarProps) => {
+  const chips = chipsFor(filters);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-600">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            className="block w-full mt-1 px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            className="block w-full mt-1 px-2 py-1 border rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-600 md:col-span-2">
+          Item
+          <input
+            type="search"
+            value={filters.item ?? ''}
+            onChange={(e) => onChange({ ...filters, item: e.target.value || undefined })}
+            placeholder="Only items matching…"
+            className="block w-full mt-1 px-2 py-1 border rounded"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <span className="text-sm text-gray-600 mr-1">Stores</span>
+        {stores.map(store => (
+          <button
+            key={store}
+            onClick={() => onChange(toggleFilter(filters, 'stores', store))}
+            className={optionClass(filters.stores?.includes(store) ?? false)}
+          >
+            {store}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        <span className="text-sm text-gray-600 mr-1">Categories</span>
+        {categories.map(category => (
+          <button
+            key={category}
+            onClick={() => onChange(toggleFilter(filters, 'categories', category))}
+            className={optionClass(filters.categories?.includes(category) ?? false)}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <span className="text-sm text-gray-600 mr-1">Tags</span>
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange(toggleFilter(filters, 'tags', tag))}
+              className={optionClass(filters.tags?.includes(tag) ?? false)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+          <span className="text-sm text-gray-600 mr-1">Showing only</span>
+          {chips.map(chip => (
+            <span key={chip.key} className="inline-flex items-center px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-sm">
+              {chip.label}
+              <button
+                onClick={() => onChange(chip.remove())}
+                className="ml-1 text-blue-400 hover:text-blue-800"
+                aria-label={`Remove ${chip.label}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onChange({})} className="text-sm text-blue-600 hover:underline ml-2">
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -1,228 +1,278 @@
-import React, { useState, useEffect } from 'react';
-import { BarChart, Bar, PieChart, Pie, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
-import Papa from 'papaparse';
-
-const GroceryAnalysis = () => {
-  const [data, setData] = useState([]);
-  const [loading, setLoading] = useState(false);
-  const [categoryData, setCategoryData] = useState([]);
-  const [storeData, setStoreData] = useState([]);
-  const [monthlyData, setMonthlyData] = useState([]);
-  const [topItems, setTopItems] = useState([]);
-  const [stats, setStats] = useState({
-    totalSpent: 0,
-    avgPerTrip: 0,
-    totalTrips: 0,
-    totalItems: 0
-  });
-  const [fileUploaded, setFileUploaded] = useState(false);
+import { useState, useMemo } from 'react';
+import { BarChart, Bar, PieChart, Pie, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell, LabelList } from 'recharts';
+import BudgetPanel from './BudgetPanel';
+import CatalogEditor from './CatalogEditor';
+import CategoryReview from './CategoryReview';
+import DatasetManager from './DatasetManager';
+import { datasetKey, datasetLines, mergedLines, useDatasetFiles } from './datasets';
+import DuplicateReview from './DuplicateReview';
+import { DEFAULT_CATALOG, DEFAULT_CATEGORY_SETTINGS, DEFAULT_TAG_SETTINGS, EMPTY_HEADCOUNT, EMPTY_LEDGER, analyze, applyLineEdits, buildCategorizer, buildTrips, canonicalize, categorizeLines, describeFocus, findDuplicates, reconcileDiscounts, tagLines, tagsOf, toggleFilter, withOverhead } from './engine';
+import type { Budget, Catalog, CategorySettings, Dataset, DuplicateTrip, Headcount, ImportResult, ItemSummary, Ledger, LineEdits, LineFilters, ShoppingList, TagSettings, TripFocus } from './engine';
+import FilterBar from './FilterBar';
+import { formatCurrency, formatPercentage, formatUnitPrice } from './format';
+import HeadcountEditor from './HeadcountEditor';
+import ImportReport from './ImportReport';
+import InflationWatch from './InflationWatch';
+import ItemsView from './ItemsView';
+import LedgerView from './LedgerView';
+import LineEditor from './LineEditor';
+import OverheadPanel from './OverheadPanel';
+import PerPersonPanel from './PerPersonPanel';
+import ReceiptTextImport from './ReceiptTextImport';
+import type { DashboardView, Route } from './router';
+import SavingsPanel from './SavingsPanel';
+import ItemSearchComponent from './Search';
+import SeasonCompare from './SeasonCompare';
+import ShoppingListView from './ShoppingListView';
+import StoresView from './StoresView';
+import { usePersistentState } from './storage';
+import TagEditor from './TagEditor';
+import TagPanel from './TagPanel';
+import TrendChart from './TrendChart';
+import TripsView from './TripsView';
+import { useUndoable } from './undo';
+import UploadSection from './UploadSection';
+import ViewTabs from './ViewTabs';
+
+interface GroceryAnalysisProps {
+  dataset: Dataset;
+  datasets: Dataset[];
+  route: Route;
+  onNavigate: (route: Route, options?: { replace?: boolean }) => void;
+  onDatasetsChange: () => Promise<void>;
+}
+
+// Keyed by dataset, so switching seasons starts over with that season's
+// stored settings. The view, filters and trend granularity come from the
+// route, so a copied link opens the same page.
+const GroceryAnalysis = ({ dataset, datasets, route, onNavigate, onDatasetsChange }: GroceryAnalysisProps) => {
+  const { files, loaded, addFile, updateFile, reimportFile, removeFile } = useDatasetFiles(dataset);
+  const fileUploaded = files.length > 0;
+  const [pendingMerge, setPendingMerge] = useState<{ result: ImportResult; fileName: string; trips: DuplicateTrip[] } | null>(null);
+  const [includeOverhead, setIncludeOverhead] = usePersistentState('include-overhead', false);
+  const [catalog, setCatalog] = usePersistentState<Catalog>('catalog', DEFAULT_CATALOG);
+  const [categorySettings, setCategorySettings] = usePersistentState<CategorySettings>('categories', DEFAULT_CATEGORY_SETTINGS);
+  const [tagSettings, setTagSettings] = usePersistentState<TagSettings>('tags', DEFAULT_TAG_SETTINGS);
+  const [headcount, setHeadcount] = usePersistentState<Headcount>(datasetKey(dataset, 'headcount'), dataset.headcount ?? EMPTY_HEADCOUNT);
+  const [ledger, setLedger] = usePersistentState<Ledger>(datasetKey(dataset, 'ledger'), EMPTY_LEDGER);
+  const [budgets, setBudgets] = usePersistentState<Budget[]>('budgets', []);
+  const [lineEdits, setLineEdits] = usePersistentState<LineEdits>(datasetKey(dataset, 'line-edits'), {});
+  const editHistory = useUndoable(lineEdits, setLineEdits);
+  const [shoppingList, setShoppingList] = usePersistentState<ShoppingList | null>(datasetKey(dataset, 'shopping-list'), null);
+  const [tripFocus, setTripFocus] = useState<TripFocus | null>(null);
+  const [chartSelection, setChartSelection] = useState<TripFocus | null>(null);
+  const { view, filters } = route;
+
+  // Lines as corrected under Edit, with the category fixes made under
+  // Products and guesses for lines imported without a category, before
+  // anything is summed up.
+  const importedLines = useMemo(() => applyLineEdits(datasetLines(files, dataset), lineEdits), [files, dataset, lineEdits]);
+  const categorizer = useMemo(() => buildCategorizer(importedLines, categorySettings, catalog), [importedLines, categorySettings, catalog]);
+  const lines = useMemo(() => categorizeLines(importedLines, categorizer), [importedLines, categorizer]);
+
+  const setView = (next: DashboardView) => onNavigate({ ...route, view: next, item: undefined });
+  // Filters change as fast as someone types, so they replace the current
+  // history entry instead of piling up back-button steps.
+  const setFilters = (next: LineFilters) => onNavigate({ ...route, filters: next }, { replace: true });
+
+  const { lines: analyzedLines, categories: categoryData, stores: storeData, topItems, savingsByStore, savingsByTrip, overhead, trips, stats, perPerson, budgets: budgetSummaries } = useMemo(
+    () => analyze(lines, { includeOverhead, catalog, tags: tagSettings, filters, headcount, budgets }),
+    [lines, includeOverhead, catalog, tagSettings, filters, headcount, budgets]
+  );
+
+  // Money changed hands for whole receipts, and pantries run out whatever the
+  // dashboard is looking at, so the ledger and shopping list ignore the filters.
+  const allLines = useMemo(() => canonicalize(reconcileDiscounts(lines), catalog), [lines, catalog]);
+  const allTrips = useMemo(() => buildTrips(allLines), [allLines]);
+  // Search applies the route's filters itself, with controls of its own in
+  // place of the filter bar, so it starts from every line.
+  const searchLines = useMemo(() => withOverhead(allLines, includeOverhead), [allLines, includeOverhead]);
+
+  // Filter choices come from the whole dataset, so picking one never hides the rest.
+  const filterOptions = useMemo(() => {
+    const counted = withOverhead(lines, includeOverhead);
+    return {
+      stores: [...new Set(counted.map(line => line.store))].sort(),
+      categories: [...new Set(counted.map(line => line.category))].sort(),
+      tags: tagsOf(tagLines(canonicalize(counted, catalog), tagSettings))
+    };
+  }, [lines, includeOverhead, catalog, tagSettings]);
 
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FF6B6B'];
 
-  const handleFileUpload = (event) => {
-    const file = event.target.files[0];
-    if (file) {
-      setLoading(true);
-      
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const csvData = e.target.result;
-        processData(csvData);
-      };
-      reader.readAsText(file);
-    }
+  // Clicking a chart narrows the dashboard to what was clicked and remembers
+  // it, so the trips behind it are one more click away. The selection lapses
+  // once the filter it set is cleared, from the chart or the filter bar.
+  const selectFromChart = (next: LineFilters, focus: TripFocus) => {
+    setFilters(next);
+    setChartSelection(focus);
   };
+  const isSelected = (focus: TripFocus) =>
+    (focus.category === undefined || !!filters.categories?.includes(focus.category)) &&
+    (focus.store === undefined || !!filters.stores?.includes(focus.store)) &&
+    (focus.item === undefined || filters.item === `"${focus.item}"`) &&
+    (focus.from === undefined || (filters.from === focus.from && filters.to === focus.to));
+  const selection = chartSelection && isSelected(chartSelection) ? chartSelection : null;
 
-  const processData = (csvData) => {
-    try {
-      const parsedData = Papa.parse(csvData, {
-        delimiter: ',',
-        header: false,
-        dynamicTyping: true,
-        skipEmptyLines: true
-      });
-      
-      // Define headers - assuming CSV structure matches our expected format
-      const headers = ["Date", "Store", "Category", "Item", "Quantity", "Unit", "Price", "Total"];
-      
-      // Clean data
-      const cleanedData = [];
-      parsedData.data.forEach(row => {
-        if (row.length < 8) return;
-        
-        const item = {};
-        headers.forEach((header, index) => {
-          item[header] = row[index];
-        });
-        
-        if (typeof item.Total !== 'number') return;
-        cleanedData.push(item);
-      });
-      
-      setData(cleanedData);
-      
-      // Process category data
-      const categories = {};
-      cleanedData.forEach(item => {
-        if (!categories[item.Category]) {
-          categories[item.Category] = 0;
-        }
-        categories[item.Category] += item.Total;
-      });
-      
-      const categoryArray = Object.entries(categories).map(([name, spent]) => ({
-        name,
-        value: spent,
-        percentage: (spent * 100 / cleanedData.reduce((sum, item) => sum + item.Total, 0)).toFixed(1)
-      })).sort((a, b) => b.value - a.value);
-      
-      setCategoryData(categoryArray);
-      
-      // Process store data
-      const stores = {};
-      cleanedData.forEach(item => {
-        if (!stores[item.Store]) {
-          stores[item.Store] = 0;
-        }
-        stores[item.Store] += item.Total;
-      });
-      
-      const storeArray = Object.entries(stores).map(([name, spent]) => ({
-        name,
-        value: spent,
-        percentage: (spent * 100 / cleanedData.reduce((sum, item) => sum + item.Total, 0)).toFixed(1)
-      })).sort((a, b) => b.value - a.value);
-      
-      setStoreData(storeArray);
-      
-      // Process monthly data
-      const months = {};
-      cleanedData.forEach(item => {
-        if (typeof item.Date === 'string' && item.Date.includes('-')) {
-          const month = item.Date.substring(0, 7); // Get YYYY-MM
-          if (!months[month]) {
-            months[month] = 0;
-          }
-          months[month] += item.Total;
-        }
-      });
-      
-      const monthArray = Object.entries(months).map(([month, spent]) => ({
-        month,
-        spent
-      })).sort((a, b) => a.month.localeCompare(b.month));
-      
-      setMonthlyData(monthArray);
-      
-      // Process top items
-      const items = {};
-      cleanedData.forEach(row => {
-        if (row.Category !== "CA Redemp VA") {
-          if (!items[row.Item]) {
-            items[row.Item] = {
-              count: 0,
-              total: 0,
-              category: row.Category
-            };
-          }
-          items[row.Item].count++;
-          items[row.Item].total += row.Total;
-        }
-      });
-      
-      const itemArray = Object.entries(items)
-        .filter(([name, stats]) => stats.category !== 'CRV')
-        .map(([name, stats]) => ({
-          name,
-          count: stats.count,
-          total: stats.total,
-          category: stats.category,
-          avgPrice: (stats.total / stats.count).toFixed(2)
-        }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 10);
-      
-      setTopItems(itemArray);
-      
-      // Calculate overall stats
-      const trips = {};
-      cleanedData.forEach(item => {
-        const tripKey = `${item.Date}`;
-        if (!trips[tripKey]) {
-          trips[tripKey] = {
-            total: 0,
-            items: 0
-          };
-        }
-        trips[tripKey].total += item.Total;
-        trips[tripKey].items++;
-      });
-      
-      const totalSpent = cleanedData.reduce((sum, item) => sum + item.Total, 0);
-      const totalTrips = Object.keys(trips).length;
-      
-      setStats({
-        totalSpent,
-        avgPerTrip: totalSpent / totalTrips,
-        totalTrips,
-        totalItems: cleanedData.length
-      });
-      
-      setFileUploaded(true);
-      setLoading(false);
-    } catch (error) {
-      console.error("Error processing file:", error);
-      setLoading(false);
-    }
+  // Clicking a point on the trend narrows to its dates; clicking it again
+  // widens back out.
+  const toggleRange = (from: string, to: string) => {
+    const active = filters.from === from && filters.to === to;
+    selectFromChart({ ...filters, from: active ? undefined : from, to: active ? undefined : to }, { from, to });
   };
 
-  // Load the example data for demo purposes
-  useEffect(() => {
-    const loadExampleData = async () => {
-      try {
-        // We'll load the default data when the component mounts
-        // but this can be disabled if you only want to support uploads
-        const fileContent = await window.fs.readFile('groceryreceiptscsv.csv', { encoding: 'utf8' });
-        processData(fileContent);
-      } catch (error) {
-        console.error("Error loading example data:", error);
-      }
-    };
-    
-    // loadExampleData();
-  }, []);
+  // Jumps from a table row or chart selection to the receipts behind it.
+  const openTrips = (focus: TripFocus | null) => {
+    setTripFocus(focus);
+    setView('trips');
+  };
+
+  const renderViewTrips = (shown: boolean) => shown && selection && (
+    <button
+      onClick={() => openTrips(selection)}
+      className="px-3 py-1 rounded border border-gray-300 bg-white text-sm hover:bg-gray-100 transition duration-300"
+    >
+      View trips: {describeFocus(selection)}
+    </button>
+  );
 
-  const formatCurrency = (value) => {
-    return `$${value.toFixed(2)}`;
+  // A file that repeats receipts already imported waits for review first.
+  const handleImport = (result: ImportResult, fileName: string) => {
+    const trips = findDuplicates(mergedLines(files), result.lines);
+    if (trips.length > 0) setPendingMerge({ result, fileName, trips });
+    else addFile(result, fileName);
   };
 
-  const renderUploadSection = () => {
+  const openDataset = (id: string) => onNavigate({ dataset: id, view: 'overview', filters: {}, granularity: route.granularity });
+
+  const renderImport = () => {
     return (
-      <div className="bg-white p-6 rounded-lg shadow mb-6 text-center">
-        <h2 className="text-xl font-bold mb-4">Upload Your Grocery Receipt CSV</h2>
-        <p className="mb-4 text-gray-600">
-          Upload a CSV file with your grocery receipts to analyze your spending patterns.
-          Expected format: Date, Store, Category, Item, Quantity, Unit, Price, Total
-        </p>
-        <div className="flex justify-center mb-4">
-          <label className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded cursor-pointer transition duration-300">
-            <span>Select CSV File</span>
-            <input 
-              type="file" 
-              accept=".csv" 
-              className="hidden" 
-              onChange={handleFileUpload}
-            />
-          </label>
-        </div>
-        {loading && <p className="text-gray-600">Processing your data...</p>}
-      </div>
+      <>
+        <DatasetManager
+          datasets={datasets}
+          dataset={dataset}
+          files={files}
+          onOpen={openDataset}
+          onDatasetsChange={onDatasetsChange}
+          onReimportFile={reimportFile}
+          onRemoveFile={removeFile}
+        />
+        {pendingMerge ? (
+          <DuplicateReview
+            fileName={pendingMerge.fileName}
+            trips={pendingMerge.trips}
+            onConfirm={(duplicates) => {
+              addFile(pendingMerge.result, pendingMerge.fileName, duplicates);
+              setPendingMerge(null);
+            }}
+            onCancel={() => setPendingMerge(null)}
+          />
+        ) : (
+          <>
+            <UploadSection onImport={handleImport} title={fileUploaded ? `Add Another CSV to ${dataset.name}` : undefined} />
+            <ReceiptTextImport categories={filterOptions.categories} categorizer={categorizer} onImport={handleImport} />
+          </>
+        )}
+        {files.map(file => (
+          <ImportReport
+            key={`${file.id}|${file.result.csvData}`}
+            result={file.result}
+            fileName={file.fileName}
+            onReimport={(result, fixes) => updateFile(file.id, result, fixes)}
+          />
+        ))}
+      </>
+    );
+  };
+
+  const renderTrips = () => {
+    return <TripsView trips={trips} focus={tripFocus} onClearFocus={() => setTripFocus(null)} />;
+  };
+
+  const renderItems = () => {
+    return <ItemsView lines={analyzedLines} item={route.item} onSelectItem={(item) => onNavigate({ ...route, view: 'items', item: item ?? undefined })} />;
+  };
+
+  const renderStores = () => {
+    return <StoresView lines={analyzedLines} onSelectItem={(item) => onNavigate({ ...route, view: 'items', item })} />;
+  };
+
+  const renderSearch = () => {
+    return <ItemSearchComponent lines={searchLines} filters={filters} onFiltersChange={setFilters} />;
+  };
+
+  const renderEdit = () => {
+    return (
+      <LineEditor
+        lines={lines}
+        edits={lineEdits}
+        categories={filterOptions.categories}
+        exportName={`${dataset.id}.csv`}
+        onChange={editHistory.change}
+        onUndo={editHistory.undo}
+        onRedo={editHistory.redo}
+        canUndo={editHistory.canUndo}
+        canRedo={editHistory.canRedo}
+      />
+    );
+  };
+
+  const renderProducts = () => {
+    return (
+      <>
+        <CatalogEditor catalog={catalog} lines={lines} onChange={setCatalog} />
+        <CategoryReview lines={lines} settings={categorySettings} categories={filterOptions.categories} onChange={setCategorySettings} />
+        <TagEditor lines={allLines} settings={tagSettings} onChange={setTagSettings} />
+      </>
     );
   };
 
+  const renderPeople = () => {
+    const firstDate = lines.reduce<string | null>((first, line) => !first || line.date < first ? line.date : first, null);
+    return <HeadcountEditor headcount={headcount} firstDate={firstDate} onChange={setHeadcount} />;
+  };
+
+  const renderLedger = () => {
+    return <LedgerView trips={allTrips} ledger={ledger} onChange={setLedger} />;
+  };
+
+  const renderShopping = () => {
+    return <ShoppingListView lines={allLines} stores={filterOptions.stores} list={shoppingList} onChange={setShoppingList} />;
+  };
+
+  const renderCompare = () => {
+    return <SeasonCompare dataset={dataset} lines={lines} headcount={headcount} datasets={datasets} includeOverhead={includeOverhead} catalog={catalog} categories={categorySettings} />;
+  };
+
+  const renderView = () => {
+    if (view === 'trips') return renderTrips();
+    if (view === 'items') return renderItems();
+    if (view === 'stores') return renderStores();
+    if (view === 'search') return renderSearch();
+    if (view === 'edit') return renderEdit();
+    if (view === 'products') return renderProducts();
+    if (view === 'people') return renderPeople();
+    if (view === 'ledger') return renderLedger();
+    if (view === 'shopping') return renderShopping();
+    if (view === 'compare') return renderCompare();
+    if (view === 'import') return renderImport();
+    return renderDashboard();
+  };
+
   const renderDashboard = () => {
     return (
       <>
+        <div className="flex justify-end mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeOverhead}
+              onChange={(e) => setIncludeOverhead(e.target.checked)}
+            />
+            Include tax, bag fees &amp; bottle deposits
+          </label>
+        </div>
+
         {/* Summary Stats */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white p-4 rounded-lg shadow">
@@ -242,29 +292,82 @@ const GroceryAnalysis = () => {
             <p className="text-3xl font-bold text-purple-600">{stats.totalItems}</p>
           </div>
         </div>
-        
+
+        <PerPersonPanel perPerson={perPerson} />
+        <SavingsPanel totalSavings={stats.totalSavings} byStore={savingsByStore} byTrip={savingsByTrip} />
+        <OverheadPanel overhead={overhead} />
+        <InflationWatch lines={analyzedLines} onSelect={openTrips} />
+
+        <div className="bg-white p-4 rounded-lg shadow mb-6">
+          <h2 className="text-xl font-bold mb-4">Spending by Category (Table)</h2>
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Category</th>
+                <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Amount</th>
+                <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Percentage</th>
+                <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Budget</th>
+                <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Avg per Period</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categoryData.map((entry, index) => {
+                const budget = budgetSummaries.find(summary => summary.category === entry.name);
+                return (
+                  <tr key={index} className="hover:bg-gray-100 cursor-pointer" onClick={() => openTrips({ category: entry.name })}>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{entry.name}</td>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatCurrency(entry.value)}</td>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatPercentage(entry.percentage)}</td>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">
+                      {budget ? `${formatCurrency(budget.amount)} / ${budget.period}` : '—'}
+                    </td>
+                    <td className={`py-2 px-4 border-b border-gray-200 text-sm text-right ${budget && budget.averageSpent > budget.amount ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                      {budget ? formatCurrency(budget.averageSpent) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <TagPanel lines={analyzedLines} granularity={route.granularity} onSelect={(tag) => setFilters(toggleFilter(filters, 'tags', tag))} />
+
+        <BudgetPanel
+          lines={analyzedLines}
+          categories={filterOptions.categories}
+          budgets={budgets}
+          summaries={budgetSummaries}
+          onChange={setBudgets}
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           {/* Spending by Category */}
           <div className="bg-white p-4 rounded-lg shadow">
-            <h2 className="text-xl font-bold mb-4">Spending by Category</h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold">Spending by Category</h2>
+              {renderViewTrips(selection?.category !== undefined)}
+            </div>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
                     data={categoryData}
+                    onClick={(entry) => selectFromChart(toggleFilter(filters, 'categories', String(entry.name)), { category: String(entry.name) })}
+                    className="cursor-pointer"
                     cx="50%"
                     cy="50%"
                     labelLine={true}
-                    label={({name, percentage}) => `${name}: ${percentage}%`}
+                    label={({name, percentage}) => `${name}: ${formatPercentage(percentage)}`}
                     outerRadius={80}
                     fill="#8884d8"
                     dataKey="value"
                   >
-                    {categoryData.map((entry, index) => (
+                    {categoryData.map((_, index) => (
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => formatCurrency(value)} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                   <Legend />
                 </PieChart>
               </ResponsiveContainer>
@@ -273,25 +376,30 @@ const GroceryAnalysis = () => {
           
           {/* Spending by Store */}
           <div className="bg-white p-4 rounded-lg shadow">
-            <h2 className="text-xl font-bold mb-4">Spending by Store</h2>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold">Spending by Store</h2>
+              {renderViewTrips(selection?.store !== undefined)}
+            </div>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
                     data={storeData}
+                    onClick={(entry) => selectFromChart(toggleFilter(filters, 'stores', String(entry.name)), { store: String(entry.name) })}
+                    className="cursor-pointer"
                     cx="50%"
                     cy="50%"
                     labelLine={true}
-                    label={({name, percentage}) => `${name}: ${percentage}%`}
+                    label={({name, percentage}) => `${name}: ${formatPercentage(percentage)}`}
                     outerRadius={80}
                     fill="#8884d8"
                     dataKey="value"
                   >
-                    {storeData.map((entry, index) => (
+                    {storeData.map((_, index) => (
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => formatCurrency(value)} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
                   <Legend />
                 </PieChart>
               </ResponsiveContainer>
@@ -299,42 +407,47 @@ const GroceryAnalysis = () => {
           </div>
         </div>
         
-        {/* Monthly Spending Trend */}
-        <div className="bg-white p-4 rounded-lg shadow mb-6">
-          <h2 className="text-xl font-bold mb-4">Monthly Spending Trend</h2>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart
-                data={monthlyData}
-                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis tickFormatter={(value) => formatCurrency(value)} />
-                <Tooltip formatter={(value) => formatCurrency(value)} />
-                <Legend />
-                <Line type="monotone" dataKey="spent" stroke="#8884d8" activeDot={{ r: 8 }} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
+        <TrendChart
+          lines={analyzedLines}
+          headcount={headcount.entries.length > 0 ? headcount : null}
+          granularity={route.granularity}
+          onGranularityChange={(granularity) => onNavigate({ ...route, granularity }, { replace: true })}
+          onSelectRange={toggleRange}
+          selectionAction={renderViewTrips(selection?.from !== undefined)}
+        />
         
         {/* Top 10 Most Frequently Purchased Items */}
         <div className="bg-white p-4 rounded-lg shadow">
-          <h2 className="text-xl font-bold mb-4">Top 10 Most Frequently Purchased Items</h2>
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-bold">Top 10 Most Frequently Purchased Items</h2>
+            {renderViewTrips(selection?.item !== undefined)}
+          </div>
+          <div className="h-200">
+          <ResponsiveContainer width="100%" height="100%">
               <BarChart
                 data={topItems}
                 layout="vertical"
-                margin={{ top: 5, right: 30, left: 80, bottom: 5 }}
+                margin={{ top: 5, right: 30, left: 150, bottom: 5 }}
               >
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis type="number" />
-                <YAxis type="category" dataKey="name" width={100} />
-                <Tooltip formatter={(value, name) => name === 'total' ? formatCurrency(value) : value} />
+                <YAxis 
+                  type="category" 
+                  dataKey="name" 
+                  width={150} 
+                  tick={{ fontSize: 24, fill: '#333' }} 
+                />
+                <Tooltip
+                  formatter={(value, name) => name === 'total' ? formatCurrency(Number(value)) : value}
+                  labelFormatter={(label, payload) => {
+                    const item: ItemSummary | undefined = payload[0]?.payload;
+                    return item?.unitPrice ? `${label} · ${formatUnitPrice(item.unitPrice)}` : label;
+                  }}
+                />
                 <Legend />
-                <Bar dataKey="count" fill="#8884d8" name="Purchase Frequency" />
+                <Bar dataKey="count" fill="#8884d8" name="Purchase Frequency" className="cursor-pointer" onClick={(entry) => selectFromChart({ ...filters, item: `"${entry.payload.name}"` }, { item: entry.payload.name })}>
+                  <LabelList dataKey="count" position="right" />
+                </Bar>
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -345,15 +458,42 @@ const GroceryAnalysis = () => {
 
   return (
     <div className="p-4 bg-gray-100 rounded-lg">
-      <h1 className="text-2xl font-bold mb-6 text-center">Grocery Shopping Analysis Dashboard</h1>
-      
-      {renderUploadSection()}
-      
-      {fileUploaded ? renderDashboard() : (
+      <div className="flex flex-wrap items-center justify-center gap-4 mb-6 print:hidden">
+        <h1 className="text-2xl font-bold text-center">{dataset.title}</h1>
+        {datasets.length > 1 && (
+          <select
+            value={dataset.id}
+            onChange={(e) => openDataset(e.target.value)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            {datasets.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => navigator.clipboard.writeText(window.location.href)}
+          className="px-3 py-1 rounded border border-gray-300 bg-white text-sm hover:bg-gray-100 transition duration-300"
+        >
+          Copy Link
+        </button>
+      </div>
+
+      {fileUploaded && (
+        <ViewTabs
+          tabs={[{ id: 'overview', label: 'Overview' }, { id: 'trips', label: 'Trips' }, { id: 'items', label: 'Items' }, { id: 'stores', label: 'Stores' }, { id: 'search', label: 'Search' }, { id: 'edit', label: 'Edit' }, { id: 'products', label: 'Products' }, { id: 'people', label: 'People' }, { id: 'ledger', label: 'Ledger' }, { id: 'shopping', label: 'Shopping' }, { id: 'compare', label: 'Compare' }, { id: 'import', label: 'Import' }]}
+          active={view}
+          onChange={(id) => id === 'trips' ? openTrips(null) : setView(id)}
+        />
+      )}
+
+      {fileUploaded && (view === 'overview' || view === 'trips' || view === 'items' || view === 'stores') && (
+        <FilterBar filters={filters} stores={filterOptions.stores} categories={filterOptions.categories} tags={filterOptions.tags} onChange={setFilters} />
+      )}
+
+      {fileUploaded ? renderView() : !loaded ? (
         <div className="bg-white p-6 rounded-lg shadow text-center">
-          <p className="text-gray-600">Upload a CSV file to view your spending analysis</p>
+          <p className="text-gray-600">Loading {dataset.name}…</p>
         </div>
-      )}
+      ) : renderImport()}
     </div>
   );
 };
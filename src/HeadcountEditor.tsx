@@ -0,0 +1,126 @@
+import { addDays, isoWeek } from './engine';
+import type { GuestDay, Headcount, HeadcountEntry } from './engine';
+
+interface HeadcountEditorProps {
+  headcount: Headcount;
+  firstDate: string | null; // first purchase in the data, where a new timeline starts
+  onChange: (headcount: Headcount) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+const addButtonClass = 'mt-4 px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300';
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+const HeadcountEditor = ({ headcount, firstDate, onChange }: HeadcountEditorProps) => {
+  const entries = [...headcount.entries].sort((a, b) => a.from.localeCompare(b.from));
+  const guestDays = [...headcount.guestDays].sort((a, b) => a.date.localeCompare(b.date));
+
+  const updateEntry = (entry: HeadcountEntry, changes: Partial<HeadcountEntry>) =>
+    onChange({ ...headcount, entries: headcount.entries.map(current => current === entry ? { ...entry, ...changes } : current) });
+  const removeEntry = (entry: HeadcountEntry) =>
+    onChange({ ...headcount, entries: headcount.entries.filter(current => current !== entry) });
+  // Each new entry starts the week after the last one, carrying its headcount over.
+  const addEntry = () => {
+    const last = entries[entries.length - 1];
+    const from = last ? addDays(isoWeek(last.from).from, 7) : isoWeek(firstDate ?? today()).from;
+    onChange({ ...headcount, entries: [...headcount.entries, { from, residents: last?.residents ?? 1 }] });
+  };
+
+  const updateGuestDay = (day: GuestDay, changes: Partial<GuestDay>) =>
+    onChange({ ...headcount, guestDays: headcount.guestDays.map(current => current === day ? { ...day, ...changes } : current) });
+  const removeGuestDay = (day: GuestDay) =>
+    onChange({ ...headcount, guestDays: headcount.guestDays.filter(current => current !== day) });
+  const addGuestDay = () =>
+    onChange({ ...headcount, guestDays: [...headcount.guestDays, { date: entries[entries.length - 1]?.from ?? firstDate ?? today(), guests: 1 }] });
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-bold mb-2">Residents</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          How many people were eating from the kitchen. Each row holds until the next one starts.
+        </p>
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={headerClass}>From</th>
+              <th className={headerClass}>Residents</th>
+              <th className={headerClass}>Note</th>
+              <th className={headerClass}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => (
+              <tr key={index} className="hover:bg-gray-100">
+                <td className={cellClass}>
+                  <input type="date" value={entry.from} onChange={(e) => e.target.value && updateEntry(entry, { from: e.target.value })} className={inputClass} />
+                </td>
+                <td className={cellClass}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={entry.residents}
+                    onChange={(e) => updateEntry(entry, { residents: Math.max(0, Number(e.target.value)) })}
+                    className={`${inputClass} w-24`}
+                  />
+                </td>
+                <td className={cellClass}>
+                  <input type="text" value={entry.note ?? ''} onChange={(e) => updateEntry(entry, { note: e.target.value })} className={`${inputClass} w-full`} />
+                </td>
+                <td className={cellClass}>
+                  <button onClick={() => removeEntry(entry)} className="text-sm text-red-600 hover:underline">Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={addEntry} className={addButtonClass}>Add Week</button>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Guest Days</h2>
+        <p className="text-sm text-gray-600 mb-4">Extra people eating on a single day, on top of the residents.</p>
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={headerClass}>Date</th>
+              <th className={headerClass}>Guests</th>
+              <th className={headerClass}>Note</th>
+              <th className={headerClass}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {guestDays.map((day, index) => (
+              <tr key={index} className="hover:bg-gray-100">
+                <td className={cellClass}>
+                  <input type="date" value={day.date} onChange={(e) => e.target.value && updateGuestDay(day, { date: e.target.value })} className={inputClass} />
+                </td>
+                <td className={cellClass}>
+                  <input
+                    type="number"
+                    min={0}
+                    value={day.guests}
+                    onChange={(e) => updateGuestDay(day, { guests: Math.max(0, Number(e.target.value)) })}
+                    className={`${inputClass} w-24`}
+                  />
+                </td>
+                <td className={cellClass}>
+                  <input type="text" value={day.note ?? ''} onChange={(e) => updateGuestDay(day, { note: e.target.value })} className={`${inputClass} w-full`} />
+                </td>
+                <td className={cellClass}>
+                  <button onClick={() => removeGuestDay(day)} className="text-sm text-red-600 hover:underline">Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={addGuestDay} className={addButtonClass}>Add Guest Day</button>
+      </div>
+    </>
+  );
+};
+
+export default HeadcountEditor;
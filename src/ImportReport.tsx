@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { ISSUE_LABELS, reimportCsv } from './engine';
+import type { ImportIssue, ImportResult } from './engine';
+
+interface ImportReportProps {
+  result: ImportResult;
+  fileName?: string;
+  onReimport: (result: ImportResult, fixes: Record<number, string>) => void;
+}
+
+// One row per source line, so a line with several problems is fixed once.
+const groupByLine = (issues: ImportIssue[]) => {
+  const lines: Record<number, ImportIssue[]> = {};
+  issues.forEach(issue => {
+    if (!lines[issue.lineNumber]) lines[issue.lineNumber] = [];
+    lines[issue.lineNumber].push(issue);
+  });
+  return Object.values(lines).sort((a, b) => a[0].lineNumber - b[0].lineNumber);
+};
+
+const ImportReport = ({ result, fileName, onReimport }: ImportReportProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [fixes, setFixes] = useState<Record<number, string>>({});
+
+  if (result.issues.length === 0) return null;
+
+  const rows = groupByLine(result.issues);
+  const rejected = rows.filter(issues => issues.some(issue => issue.severity === 'rejected')).length;
+  const flagged = rows.length - rejected;
+  const pendingFixes = Object.keys(fixes).length;
+
+  const handleReimport = () => {
+    onReimport(reimportCsv(result, fixes), fixes);
+    setFixes({});
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold">Import Report{fileName && <span className="font-mono font-normal text-gray-600"> · {fileName}</span>}</h2>
+          <p className="text-sm text-gray-600">
+            {result.lines.length} lines imported. <span className="text-red-600">{rejected} rejected</span>,{' '}
+            <span className="text-yellow-700">{flagged} flagged</span> for review.
+          </p>
+        </div>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300"
+        >
+          {expanded ? 'Hide' : 'Review'}
+        </button>
+      </div>
+
+      {expanded && (
+        <>
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Line</th>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Reason</th>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Raw Text</th>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(issues => {
+                  const { lineNumber, raw } = issues[0];
+                  const isRejected = issues.some(issue => issue.severity === 'rejected');
+                  return (
+                    <tr key={lineNumber} className="hover:bg-gray-100 align-top">
+                      <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{lineNumber}</td>
+                      <td className="py-2 px-4 border-b border-gray-200 text-sm">
+                        {issues.map((issue, index) => (
+                          <span
+                            key={index}
+                            className={`inline-block mr-1 mb-1 px-2 py-0.5 rounded text-xs ${isRejected ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}
+                          >
+                            {ISSUE_LABELS[issue.reason]}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 font-mono">
+                        <input
+                          type="text"
+                          value={fixes[lineNumber] ?? raw}
+                          onChange={(e) => setFixes({ ...fixes, [lineNumber]: e.target.value })}
+                          className={`w-full min-w-96 px-2 py-1 border rounded ${fixes[lineNumber] !== undefined ? 'border-blue-500' : 'border-transparent hover:border-gray-300'}`}
+                        />
+                      </td>
+                      <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-600">
+                        {issues.map((issue, index) => <div key={index}>{issue.message}</div>)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={() => setFixes({})}
+              disabled={pendingFixes === 0}
+              className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 disabled:text-gray-400 transition duration-300"
+            >
+              Discard Edits
+            </button>
+            <button
+              onClick={handleReimport}
+              disabled={pendingFixes === 0}
+              className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded transition duration-300"
+            >
+              Re-import with {pendingFixes} {pendingFixes === 1 ? 'fix' : 'fixes'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportReport;
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { findPriceIncreases } from './engine';
+import type { ReconciledLine, TripFocus } from './engine';
+import { formatPercentChange, formatUnitPrice } from './format';
+
+interface InflationWatchProps {
+  lines: ReconciledLine[];
+  onSelect: (focus: TripFocus) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const InflationWatch = ({ lines, onSelect }: InflationWatchProps) => {
+  const increases = useMemo(() => findPriceIncreases(lines), [lines]);
+  if (increases.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Inflation Watch</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Items whose shelf price rose the most between the first and latest purchase at the same store.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Item</th>
+              <th className={`${headerClass} text-left`}>Store</th>
+              <th className={`${headerClass} text-right`}>First</th>
+              <th className={`${headerClass} text-right`}>Latest</th>
+              <th className={`${headerClass} text-right`}>Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {increases.map(increase => (
+              <tr
+                key={`${increase.item}|${increase.store}`}
+                className="hover:bg-gray-100 cursor-pointer"
+                onClick={() => onSelect({ item: increase.item, store: increase.store })}
+              >
+                <td className={cellClass}>{increase.item}</td>
+                <td className={cellClass}>{increase.store}</td>
+                <td className={`${cellClass} text-right`}>
+                  {formatUnitPrice(increase.first)} <span className="text-gray-400">{increase.first.date}</span>
+                </td>
+                <td className={`${cellClass} text-right`}>
+                  {formatUnitPrice(increase.latest)} <span className="text-gray-400">{increase.latest.date}</span>
+                </td>
+                <td className={`${cellClass} text-right font-semibold text-red-600`}>{formatPercentChange(increase.change)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default InflationWatch;
@@ -0,0 +1,130 @@
+import { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { averageUnitPrice, compareStoreUnitPrices, summarizePurchaseHistory, sumTotals, unitPrice } from './engine';
+import type { ReconciledLine } from './engine';
+import { formatCurrency, formatUnitPrice } from './format';
+import PriceHistoryChart from './PriceHistoryChart';
+
+interface ItemResultsProps {
+  title: string;
+  lines: ReconciledLine[];
+}
+
+// Totals, prices and every purchase for a set of lines, as found by a search
+// or behind one item's page.
+const ItemResults = ({ title, lines }: ItemResultsProps) => {
+  const totalSpent = sumTotals(lines);
+  const purchaseHistory = useMemo(() => summarizePurchaseHistory(lines), [lines]);
+  const averagePrice = averageUnitPrice(lines);
+  const storePrices = compareStoreUnitPrices(lines);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-4">
+      <h2 className="text-xl font-bold mb-2">{title}</h2>
+      <div className="flex items-center mb-4">
+        <div className="bg-blue-100 p-3 rounded-lg mr-4">
+          <p className="text-sm text-gray-600">Total Purchases</p>
+          <p className="text-2xl font-bold text-blue-600">{lines.length}</p>
+        </div>
+        <div className="bg-green-100 p-3 rounded-lg mr-4">
+          <p className="text-sm text-gray-600">Total Spent</p>
+          <p className="text-2xl font-bold text-green-600">{formatCurrency(totalSpent)}</p>
+        </div>
+        <div className="bg-purple-100 p-3 rounded-lg">
+          <p className="text-sm text-gray-600">Avg Unit Price</p>
+          <p className="text-2xl font-bold text-purple-600">
+            {averagePrice ? formatUnitPrice(averagePrice) : formatCurrency(totalSpent / lines.length)}
+          </p>
+        </div>
+      </div>
+      
+      <PriceHistoryChart lines={lines} />
+
+      <h3 className="font-semibold mb-2">Purchase History</h3>
+      {purchaseHistory.length > 0 ? (
+        <div className="h-64 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={purchaseHistory}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis tickFormatter={(value) => formatCurrency(Number(value))} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              <Bar dataKey="total" fill="#8884d8" name="Amount Spent" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-gray-600 mb-4">No purchase history available</p>
+      )}
+      
+      {storePrices.length > 1 && (
+        <>
+          <h3 className="font-semibold mb-2">Price by Store</h3>
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Store</th>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Bought</th>
+                  <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Unit Price</th>
+                </tr>
+              </thead>
+              <tbody>
+                {storePrices.map(entry => (
+                  <tr key={`${entry.store}|${entry.unit}`} className="hover:bg-gray-100">
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{entry.store}</td>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">
+                      {Number(entry.amount.toFixed(2))} {entry.unit} in {entry.purchases} purchases
+                    </td>
+                    <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatUnitPrice(entry)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <h3 className="font-semibold mb-2">Purchase Details</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Date</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Store</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Item</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Quantity</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Price</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Total</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Unit Price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((item, index) => {
+              const itemUnitPrice = unitPrice(item);
+              return (
+                <tr key={index} className="hover:bg-gray-100">
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{item.date}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{item.store}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{item.item}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{item.quantity} {item.unit}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatCurrency(item.price)}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatCurrency(item.total)}</td>
+                  <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">
+                    {itemUnitPrice ? formatUnitPrice(itemUnitPrice) : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ItemResults;
@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { summarizeTopItems } from './engine';
+import type { ReconciledLine } from './engine';
+import { formatCurrency, formatUnitPrice } from './format';
+import ItemResults from './ItemResults';
+
+interface ItemsViewProps {
+  lines: ReconciledLine[];
+  item?: string; // shows this item's page instead of the list
+  onSelectItem: (item: string | null) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const ItemsView = ({ lines, item, onSelectItem }: ItemsViewProps) => {
+  const items = useMemo(() => summarizeTopItems(lines, Infinity), [lines]);
+  const itemLines = useMemo(() => lines.filter(line => line.item === item), [lines, item]);
+
+  if (item) {
+    return (
+      <>
+        <button onClick={() => onSelectItem(null)} className="text-sm text-blue-600 hover:underline mb-4">
+          ← All items
+        </button>
+        {itemLines.length > 0 ? (
+          <ItemResults title={item} lines={itemLines} />
+        ) : (
+          <div className="bg-white p-4 rounded-lg shadow">
+            <p className="text-gray-600">No purchases of {item} match the current filters.</p>
+          </div>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <h2 className="text-xl font-bold mb-4">Items</h2>
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Item</th>
+              <th className={`${headerClass} text-left`}>Category</th>
+              <th className={`${headerClass} text-right`}>Purchases</th>
+              <th className={`${headerClass} text-right`}>Spent</th>
+              <th className={`${headerClass} text-right`}>Unit Price</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(entry => (
+              <tr key={entry.name} className="hover:bg-gray-100 cursor-pointer" onClick={() => onSelectItem(entry.name)}>
+                <td className={cellClass}>{entry.name}</td>
+                <td className={cellClass}>{entry.category}</td>
+                <td className={`${cellClass} text-right`}>{entry.count}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.total)}</td>
+                <td className={`${cellClass} text-right`}>{entry.unitPrice ? formatUnitPrice(entry.unitPrice) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ItemsView;
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { lineKey, settleLedger, settlementCsv } from './engine';
+import type { Ledger, Member, Trip } from './engine';
+import { downloadFile } from './download';
+import { formatCurrency } from './format';
+
+interface LedgerViewProps {
+  trips: Trip[];
+  ledger: Ledger;
+  onChange: (ledger: Ledger) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+
+const withEntry = (record: Record<string, string>, key: string, value: string) => {
+  const next = { ...record };
+  if (value) next[key] = value;
+  else delete next[key];
+  return next;
+};
+
+const MembersCard = ({ ledger, onChange }: { ledger: Ledger; onChange: (ledger: Ledger) => void }) => {
+  const [name, setName] = useState('');
+
+  const updateMember = (member: Member, changes: Partial<Member>) =>
+    onChange({ ...ledger, members: ledger.members.map(current => current === member ? { ...member, ...changes } : current) });
+  const addMember = () => {
+    const trimmed = name.trim();
+    if (!trimmed || ledger.members.some(member => member.name === trimmed)) return;
+    onChange({ ...ledger, members: [...ledger.members, { name: trimmed }] });
+    setName('');
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Kitchen Pool</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Everyone sharing the cost of groceries. Leave the dates empty for someone who was here the whole time.
+      </p>
+      <table className="min-w-full bg-white">
+        <thead>
+          <tr>
+            <th className={`${headerClass} text-left`}>Name</th>
+            <th className={`${headerClass} text-left`}>Joined</th>
+            <th className={`${headerClass} text-left`}>Left</th>
+            <th className={headerClass}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.members.map(member => (
+            <tr key={member.name} className="hover:bg-gray-100">
+              <td className={cellClass}>{member.name}</td>
+              <td className={cellClass}>
+                <input type="date" value={member.from ?? ''} onChange={(e) => updateMember(member, { from: e.target.value || undefined })} className={inputClass} />
+              </td>
+              <td className={cellClass}>
+                <input type="date" value={member.to ?? ''} onChange={(e) => updateMember(member, { to: e.target.value || undefined })} className={inputClass} />
+              </td>
+              <td className={`${cellClass} text-right`}>
+                <button
+                  onClick={() => onChange({ ...ledger, members: ledger.members.filter(current => current !== member) })}
+                  className="text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-2 mt-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addMember()}
+          placeholder="Name"
+          className={inputClass}
+        />
+        <button onClick={addMember} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+          Add Member
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TripPayment = ({ trip, ledger, onChange }: { trip: Trip; ledger: Ledger; onChange: (ledger: Ledger) => void }) => {
+  const [expanded, setExpanded] = useState(false);
+  const personalCount = trip.lines.filter((line, index) => ledger.personal[lineKey(trip, line, index)]).length;
+
+  return (
+    <div className="border-b border-gray-200 py-2">
+      <div className="flex flex-wrap items-center gap-4">
+        <button onClick={() => setExpanded(!expanded)} className="flex-grow text-left text-sm text-gray-700">
+          <span className="font-semibold">{trip.date}</span> · {trip.store} · {formatCurrency(trip.total)}
+          {personalCount > 0 && <span className="ml-2 text-gray-500">({personalCount} personal)</span>}
+        </button>
+        <select
+          value={ledger.payers[trip.key] ?? ''}
+          onChange={(e) => onChange({ ...ledger, payers: withEntry(ledger.payers, trip.key, e.target.value) })}
+          className={`${inputClass} text-sm`}
+        >
+          <option value="">Paid by…</option>
+          {ledger.members.map(member => <option key={member.name} value={member.name}>{member.name}</option>)}
+        </select>
+      </div>
+
+      {expanded && (
+        <table className="min-w-full bg-white mt-2">
+          <tbody>
+            {trip.lines.map((line, index) => {
+              const key = lineKey(trip, line, index);
+              return (
+                <tr key={key} className="hover:bg-gray-100">
+                  <td className={`${cellClass} font-mono`}>{line.item}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(line.total)}</td>
+                  <td className={`${cellClass} text-right`}>
+                    <select
+                      value={ledger.personal[key] ?? ''}
+                      onChange={(e) => onChange({ ...ledger, personal: withEntry(ledger.personal, key, e.target.value) })}
+                      className={`${inputClass} text-sm`}
+                    >
+                      <option value="">Shared</option>
+                      {ledger.members.map(member => <option key={member.name} value={member.name}>Personal: {member.name}</option>)}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const LedgerView = ({ trips, ledger, onChange }: LedgerViewProps) => {
+  const settlement = useMemo(() => settleLedger(trips, ledger), [trips, ledger]);
+
+  return (
+    <>
+      <MembersCard ledger={ledger} onChange={onChange} />
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <div className="flex items-baseline justify-between mb-4">
+          <h2 className="text-xl font-bold">Settle Up</h2>
+          <button
+            onClick={() => downloadFile('settle-up.csv', settlementCsv(settlement))}
+            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition duration-300"
+          >
+            Export CSV
+          </button>
+        </div>
+        {settlement.unassigned.length > 0 && (
+          <p className="text-sm text-orange-600 mb-4">
+            {settlement.unassigned.length} of {trips.length} trips have no payer yet and are left out.
+          </p>
+        )}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Member</th>
+                <th className={`${headerClass} text-right`}>Paid</th>
+                <th className={`${headerClass} text-right`}>Share</th>
+                <th className={`${headerClass} text-right`}>Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {settlement.balances.map(entry => (
+                <tr key={entry.name} className="hover:bg-gray-100">
+                  <td className={cellClass}>{entry.name}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(entry.paid)}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(entry.owed)}</td>
+                  <td className={`${cellClass} text-right font-semibold ${entry.balance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(entry.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div>
+            {settlement.transfers.length > 0 ? (
+              <ul className="space-y-2">
+                {settlement.transfers.map((transfer, index) => (
+                  <li key={index} className="p-3 rounded-lg bg-gray-100 text-gray-700">
+                    <span className="font-semibold">{transfer.from}</span> pays{' '}
+                    <span className="font-semibold">{transfer.to}</span>{' '}
+                    <span className="font-bold text-blue-600">{formatCurrency(transfer.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-600">Everyone is square.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Trips</h2>
+        <p className="text-sm text-gray-600 mb-2">
+          Pick who paid for each trip. Open a trip to mark lines that were bought for one person.
+        </p>
+        {trips.map(trip => <TripPayment key={trip.key} trip={trip} ledger={ledger} onChange={onChange} />)}
+      </div>
+    </>
+  );
+};
+
+export default LedgerView;
@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useState } from 'react';
+import { editLines, isEdited, receiptCsv, revertLines, splitLine, updateLine } from './engine';
+import type { LineEdits, ReceiptLine } from './engine';
+import { downloadFile } from './download';
+import { formatCurrency } from './format';
+
+interface LineEditorProps {
+  lines: ReceiptLine[];
+  edits: LineEdits;
+  categories: string[];
+  exportName: string;
+  onChange: (edits: LineEdits) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+type BulkField = 'category' | 'store' | 'item' | 'unit' | 'date';
+
+const BULK_FIELDS: { field: BulkField; label: string }[] = [
+  { field: 'category', label: 'Category' },
+  { field: 'store', label: 'Store' },
+  { field: 'item', label: 'Item' },
+  { field: 'unit', label: 'Unit' },
+  { field: 'date', label: 'Date' }
+];
+
+const PAGE_SIZE = 100;
+
+const headerClass = 'py-2 px-2 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-1 px-2 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+const cellInputClass = 'w-full px-1 py-0.5 border rounded border-transparent hover:border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface EditableCellProps {
+  value: string;
+  type?: 'text' | 'number';
+  list?: string;
+  className?: string;
+  onCommit: (value: string) => void;
+}
+
+// Holds what is typed until the cell loses focus or Enter is pressed, so one
+// correction is one step of undo rather than one per keystroke.
+const EditableCell = ({ value, type = 'text', list, className = '', onCommit }: EditableCellProps) => {
+  const [draft, setDraft] = useState(value);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type={type}
+      step={type === 'number' ? 'any' : undefined}
+      list={list}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      className={`${cellInputClass} ${className}`}
+    />
+  );
+};
+
+const LineEditor = ({ lines, edits, categories, exportName, onChange, onUndo, onRedo, canUndo, canRedo }: LineEditorProps) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [bulkField, setBulkField] = useState<BulkField>('category');
+  const [bulkValue, setBulkValue] = useState('');
+
+  const matching = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return query
+      ? lines.filter(line => [line.item, line.category, line.store, line.date].some(value => value.toLowerCase().includes(query)))
+      : lines;
+  }, [lines, search]);
+  const visible = matching.slice(0, shown);
+  const editedCount = Object.keys(edits).length;
+
+  // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) step through the edits, except while
+  // typing, where they belong to the text box.
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) onUndo();
+      else if (key === 'y' || (key === 'z' && event.shiftKey)) onRedo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onUndo, onRedo]);
+
+  const edit = (ids: string[], change: (line: ReceiptLine) => ReceiptLine[]) => onChange(editLines(lines, edits, ids, change));
+
+  const editField = (line: ReceiptLine, change: Partial<ReceiptLine>) => edit([line.id ?? ''], current => [updateLine(current, change)]);
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every(line => selected.has(line.id ?? ''));
+  const toggleAll = () => setSelected(allVisibleSelected ? new Set() : new Set(visible.map(line => line.id ?? '')));
+
+  // Selected lines hidden by a later search still count, so the count shown
+  // is what a bulk edit will touch.
+  const selectedIds = lines.map(line => line.id ?? '').filter(id => selected.has(id));
+
+  const applyBulk = () => {
+    if (selectedIds.length === 0 || !bulkValue.trim()) return;
+    edit(selectedIds, line => [updateLine(line, { [bulkField]: bulkValue.trim() })]);
+  };
+
+  const deleteSelected = () => {
+    edit(selectedIds, () => []);
+    setSelected(new Set());
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setShown(PAGE_SIZE);
+            }}
+            placeholder="Find lines by item, category, store or date"
+            className="flex-1 min-w-64 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button onClick={onUndo} disabled={!canUndo} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition duration-300">
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50 transition duration-300">
+            Redo
+          </button>
+          <button
+            onClick={() => downloadFile(exportName, receiptCsv(lines))}
+            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition duration-300"
+          >
+            Export CSV
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          {lines.length} lines, {editedCount} {editedCount === 1 ? 'imported line' : 'imported lines'} edited. Changes are
+          kept in this browser and the export can be imported again as it is.
+        </p>
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold">{selectedIds.length} selected:</span>
+          <select value={bulkField} onChange={(e) => setBulkField(e.target.value as BulkField)} className={inputClass}>
+            {BULK_FIELDS.map(option => <option key={option.field} value={option.field}>Set {option.label}</option>)}
+          </select>
+          <input
+            type={bulkField === 'date' ? 'date' : 'text'}
+            list={bulkField === 'category' ? 'line-categories' : undefined}
+            value={bulkValue}
+            onChange={(e) => setBulkValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyBulk()}
+            className={inputClass}
+          />
+          <button onClick={applyBulk} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">Apply</button>
+          <button onClick={() => onChange(revertLines(edits, selectedIds))} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+            Revert
+          </button>
+          <button onClick={deleteSelected} className="px-4 py-2 rounded border border-red-300 text-red-600 hover:bg-red-50 transition duration-300">
+            Delete
+          </button>
+          <button onClick={() => setSelected(new Set())} className="text-sm text-blue-600 hover:underline">Clear selection</button>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>
+                  <input type="checkbox" checked={allVisibleSelected} onChange={toggleAll} />
+                </th>
+                <th className={`${headerClass} text-left`}>Date</th>
+                <th className={`${headerClass} text-left`}>Store</th>
+                <th className={`${headerClass} text-left`}>Category</th>
+                <th className={`${headerClass} text-left`}>Item</th>
+                <th className={`${headerClass} text-right`}>Quantity</th>
+                <th className={`${headerClass} text-left`}>Unit</th>
+                <th className={`${headerClass} text-right`}>Price</th>
+                <th className={`${headerClass} text-right`}>Total</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(line => {
+                const id = line.id ?? '';
+                return (
+                  <tr key={id} className={isEdited(line, edits) ? 'bg-yellow-50' : 'hover:bg-gray-100'}>
+                    <td className={`${cellClass} text-center`}>
+                      <input type="checkbox" checked={selected.has(id)} onChange={() => toggle(id)} />
+                    </td>
+                    <td className={`${cellClass} whitespace-nowrap`}>{line.date}</td>
+                    <td className={`${cellClass} whitespace-nowrap`}>{line.store}</td>
+                    <td className={cellClass}>
+                      <EditableCell key={line.category} value={line.category} list="line-categories" onCommit={(category) => editField(line, { category })} />
+                    </td>
+                    <td className={cellClass}>
+                      <EditableCell key={line.item} value={line.item} onCommit={(item) => editField(line, { item })} />
+                    </td>
+                    <td className={`${cellClass} w-24`}>
+                      <EditableCell
+                        key={line.quantity}
+                        type="number"
+                        value={String(line.quantity)}
+                        className="text-right"
+                        onCommit={(quantity) => editField(line, { quantity: Number(quantity) })}
+                      />
+                    </td>
+                    <td className={`${cellClass} w-20`}>
+                      <EditableCell key={line.unit} value={line.unit} onCommit={(unit) => editField(line, { unit })} />
+                    </td>
+                    <td className={`${cellClass} w-24`}>
+                      <EditableCell
+                        key={line.price}
+                        type="number"
+                        value={String(line.price)}
+                        className="text-right"
+                        onCommit={(price) => editField(line, { price: Number(price) })}
+                      />
+                    </td>
+                    <td className={`${cellClass} text-right`}>{formatCurrency(line.total)}</td>
+                    <td className={`${cellClass} text-right whitespace-nowrap space-x-3`}>
+                      <button onClick={() => edit([id], current => splitLine(current))} className="text-sm text-blue-600 hover:underline">Split</button>
+                      <button onClick={() => edit([id], () => [])} className="text-sm text-red-600 hover:underline">Delete</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <datalist id="line-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+        {matching.length > shown && (
+          <div className="text-center mt-4">
+            <button onClick={() => setShown(shown + PAGE_SIZE)} className="text-sm text-blue-600 hover:underline">
+              Show {Math.min(PAGE_SIZE, matching.length - shown)} more of {matching.length - shown}
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default LineEditor;
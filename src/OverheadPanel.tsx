@@ -0,0 +1,82 @@
+import type { OverheadSummary } from './engine';
+import { formatCurrency, formatPercentage } from './format';
+
+interface OverheadPanelProps {
+  overhead: OverheadSummary;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const OverheadPanel = ({ overhead }: OverheadPanelProps) => {
+  if (overhead.total === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-bold">Overhead: Tax, Bag Fees &amp; Deposits</h2>
+        <p className="text-3xl font-bold text-gray-700">{formatCurrency(overhead.total)}</p>
+      </div>
+
+      <h3 className="font-semibold mb-2">By Store</h3>
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Store</th>
+              <th className={`${headerClass} text-right`}>Merchandise</th>
+              <th className={`${headerClass} text-right`}>Tax</th>
+              <th className={`${headerClass} text-right`}>Effective Tax Rate</th>
+              <th className={`${headerClass} text-right`}>Bag Fees</th>
+              <th className={`${headerClass} text-right`}>Deposits</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overhead.byStore.map(entry => (
+              <tr key={entry.store} className="hover:bg-gray-100">
+                <td className={cellClass}>{entry.store}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.merchandise)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.tax)}</td>
+                <td className={`${cellClass} text-right`}>{formatPercentage(entry.effectiveTaxRate * 100)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.bagFees)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.deposits)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="font-semibold mb-2">By Trip</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Trip</th>
+              <th className={`${headerClass} text-right`}>Merchandise</th>
+              <th className={`${headerClass} text-right`}>Tax</th>
+              <th className={`${headerClass} text-right`}>Bag Fees</th>
+              <th className={`${headerClass} text-right`}>Deposits</th>
+              <th className={`${headerClass} text-right`}>Overhead</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overhead.byTrip.map(entry => (
+              <tr key={entry.key} className="hover:bg-gray-100">
+                <td className={cellClass}>{entry.date} · {entry.store}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.merchandise)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.tax)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.bagFees)}</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(entry.deposits)}</td>
+                <td className={`${cellClass} text-right font-semibold`}>
+                  {formatCurrency(entry.tax + entry.bagFees + entry.deposits)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OverheadPanel;
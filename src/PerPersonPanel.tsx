@@ -0,0 +1,58 @@
+import type { PerPersonStats } from './engine';
+import { formatCurrency } from './format';
+
+interface PerPersonPanelProps {
+  perPerson: PerPersonStats | null;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const PerPersonPanel = ({ perPerson }: PerPersonPanelProps) => {
+  if (!perPerson) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-bold">Cost per Person</h2>
+          <p className="text-sm text-gray-600">
+            {perPerson.personDays} person-days from {perPerson.from} to {perPerson.to}
+          </p>
+        </div>
+        <div className="flex gap-8">
+          <div>
+            <p className="text-sm text-gray-600">Per Person-Day</p>
+            <p className="text-3xl font-bold text-blue-600">{formatCurrency(perPerson.costPerPersonDay)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Per Person-Week</p>
+            <p className="text-3xl font-bold text-green-600">{formatCurrency(perPerson.costPerPersonWeek)}</p>
+          </div>
+        </div>
+      </div>
+      <table className="min-w-full bg-white">
+        <thead>
+          <tr>
+            <th className={`${headerClass} text-left`}>Category</th>
+            <th className={`${headerClass} text-right`}>Spent</th>
+            <th className={`${headerClass} text-right`}>Per Person-Day</th>
+            <th className={`${headerClass} text-right`}>Per Person-Week</th>
+          </tr>
+        </thead>
+        <tbody>
+          {perPerson.byCategory.map(entry => (
+            <tr key={entry.name} className="hover:bg-gray-100">
+              <td className={cellClass}>{entry.name}</td>
+              <td className={`${cellClass} text-right`}>{formatCurrency(entry.value)}</td>
+              <td className={`${cellClass} text-right`}>{formatCurrency(entry.perPersonDay)}</td>
+              <td className={`${cellClass} text-right`}>{formatCurrency(entry.perPersonDay * 7)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PerPersonPanel;
@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { shelfPriceLines, summarizePriceChanges, summarizePriceHistory } from './engine';
+import type { ReconciledLine } from './engine';
+import { formatCurrency, formatPercentChange, formatUnitPrice } from './format';
+
+interface PriceHistoryChartProps {
+  lines: ReconciledLine[];
+}
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
+
+const PriceHistoryChart = ({ lines }: PriceHistoryChartProps) => {
+  // Items in the results, most purchased first.
+  const items = useMemo(() => {
+    const counts: Record<string, number> = {};
+    lines.forEach(line => { counts[line.item] = (counts[line.item] ?? 0) + 1; });
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+  }, [lines]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const item = selected && items.includes(selected) ? selected : items[0];
+
+  const history = useMemo(
+    () => summarizePriceHistory(shelfPriceLines(lines.filter(line => line.item === item))),
+    [lines, item]
+  );
+  const changes = summarizePriceChanges(history);
+  const stores = [...new Set(history.map(point => point.store))];
+  const unit = history[0]?.unit;
+
+  // One row per date with a column per store, the shape the chart wants.
+  const chartData = useMemo(() => {
+    const rows: Record<string, Record<string, string | number>> = {};
+    history.forEach(point => {
+      if (!rows[point.date]) rows[point.date] = { date: point.date };
+      rows[point.date][point.store] = point.price;
+    });
+    return Object.values(rows);
+  }, [history]);
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">Price History{unit && ` (per ${unit === 'lb' ? 'lb' : 'item'})`}</h3>
+        {items.length > 1 && (
+          <select
+            value={item}
+            onChange={(e) => setSelected(e.target.value)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            {items.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+      {history.length > 0 ? (
+        <>
+          <div className="h-64 mb-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis tickFormatter={(value) => formatCurrency(Number(value))} />
+                <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                <Legend />
+                {stores.map((store, index) => (
+                  <Line
+                    key={store}
+                    type="monotone"
+                    dataKey={store}
+                    stroke={COLORS[index % COLORS.length]}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+            {changes.map(change => (
+              <p key={change.store}>
+                {change.store}: {formatUnitPrice(change.first)} → {formatUnitPrice(change.latest)}{' '}
+                <span className={change.change > 0 ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                  {formatPercentChange(change.change)}
+                </span>
+              </p>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-gray-600 mb-4">No price history available</p>
+      )}
+    </>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { RECEIPT_STORES, categorizeLines, detectReceiptFormat, importCsv, parseReceiptText, receiptCsv } from './engine';
+import type { Categorizer, ImportResult, ParsedReceipt, ReceiptFormat, ReceiptLine } from './engine';
+import { formatCurrency } from './format';
+
+interface ReceiptTextImportProps {
+  categories: string[];
+  categorizer: Categorizer;
+  onImport: (result: ImportResult, fileName: string) => void;
+}
+
+const AUTO = '';
+const FORMATS = Object.keys(RECEIPT_STORES) as ReceiptFormat[];
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-1 px-2 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+
+const BLANK_LINE: ReceiptLine = { date: '', store: '', category: '', item: '', quantity: 1, unit: 'each', price: 0, total: 0 };
+
+// Reads the text of a Costco or WinCo receipt into lines, then lets every
+// line be checked against the paper before it is imported like a CSV.
+const ReceiptTextImport = ({ categories, categorizer, onImport }: ReceiptTextImportProps) => {
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ReceiptFormat | typeof AUTO>(AUTO);
+  const [receipt, setReceipt] = useState<ParsedReceipt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const readReceipt = () => {
+    const detected = format || detectReceiptFormat(text);
+    if (!detected) {
+      setError('Could not tell which store this receipt is from. Choose the store and read it again.');
+      return;
+    }
+    const parsed = parseReceiptText(text, detected);
+    if (parsed.lines.length === 0) {
+      setError('No purchases were found in this text.');
+      return;
+    }
+    setError(null);
+    setReceipt({ ...parsed, lines: categorizeLines(parsed.lines, categorizer) });
+  };
+
+  if (!receipt) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow mb-6 print:hidden">
+        <h2 className="text-xl font-bold mb-2">Paste Receipt Text</h2>
+        <p className="mb-4 text-gray-600">
+          Paste the text of a Costco or WinCo receipt, as copied from an emailed receipt or an OCR app. Instant savings,
+          weighed produce, tax and deposits are read into their own lines, which you can check before importing.
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={10}
+          className={`${inputClass} w-full font-mono text-sm mb-4`}
+          placeholder="COSTCO WHOLESALE…"
+        />
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <select value={format} onChange={(e) => setFormat(e.target.value as ReceiptFormat | typeof AUTO)} className={inputClass}>
+            <option value={AUTO}>Detect store</option>
+            {FORMATS.map(option => <option key={option} value={option}>{RECEIPT_STORES[option]}</option>)}
+          </select>
+          <button
+            onClick={readReceipt}
+            disabled={!text.trim()}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded transition duration-300"
+          >
+            Read Receipt
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const setLines = (lines: ReceiptLine[]) => setReceipt({ ...receipt, lines });
+  const updateLine = (index: number, change: Partial<ReceiptLine>) =>
+    setLines(receipt.lines.map((line, position) => position === index ? { ...line, ...change } : line));
+
+  const linesTotal = receipt.lines.reduce((sum, line) => sum + line.total, 0);
+  const totalMismatch = receipt.total !== null && Math.abs(linesTotal - receipt.total) > 0.005;
+
+  const handleImport = () => {
+    const lines = receipt.lines
+      .filter(line => line.item.trim())
+      .map(line => ({ ...line, date: receipt.date ?? '', store: receipt.store }));
+    onImport(importCsv(receiptCsv(lines)), `${receipt.store} ${receipt.date} receipt.csv`);
+    setReceipt(null);
+    setText('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6 print:hidden">
+      <h2 className="text-xl font-bold mb-2">Check Receipt</h2>
+      <div className="flex flex-wrap gap-4 mb-4">
+        <label className="text-sm text-gray-600">
+          Date{' '}
+          <input
+            type="date"
+            value={receipt.date ?? ''}
+            onChange={(e) => setReceipt({ ...receipt, date: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Store{' '}
+          <input
+            type="text"
+            value={receipt.store}
+            onChange={(e) => setReceipt({ ...receipt, store: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {receipt.unread.length > 0 && (
+        <div className="mb-4 p-3 rounded bg-yellow-50 text-sm text-yellow-800">
+          <p className="font-semibold mb-1">These rows have an amount but were not read; add them below if they are purchases.</p>
+          <ul className="font-mono">
+            {receipt.unread.map(row => <li key={row.lineNumber}>{row.lineNumber}: {row.text}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className={`${headerClass} text-left`}>Category</th>
+              <th className={`${headerClass} text-left`}>Item</th>
+              <th className={`${headerClass} text-right`}>Quantity</th>
+              <th className={`${headerClass} text-left`}>Unit</th>
+              <th className={`${headerClass} text-right`}>Price</th>
+              <th className={`${headerClass} text-right`}>Total</th>
+              <th className={headerClass}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {receipt.lines.map((line, index) => (
+              <tr key={index} className="hover:bg-gray-100">
+                <td className={cellClass}>
+                  <input
+                    type="text"
+                    list="receipt-categories"
+                    value={line.category}
+                    onChange={(e) => updateLine(index, { category: e.target.value })}
+                    className={`${inputClass} w-32`}
+                  />
+                </td>
+                <td className={cellClass}>
+                  <input type="text" value={line.item} onChange={(e) => updateLine(index, { item: e.target.value })} className={`${inputClass} w-48`} />
+                </td>
+                <td className={`${cellClass} text-right`}>
+                  <input
+                    type="number"
+                    step="any"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                    className={`${inputClass} w-20 text-right`}
+                  />
+                </td>
+                <td className={cellClass}>
+                  <input type="text" value={line.unit} onChange={(e) => updateLine(index, { unit: e.target.value })} className={`${inputClass} w-16`} />
+                </td>
+                <td className={`${cellClass} text-right`}>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={line.price}
+                    onChange={(e) => updateLine(index, { price: Number(e.target.value) })}
+                    className={`${inputClass} w-24 text-right`}
+                  />
+                </td>
+                <td className={`${cellClass} text-right`}>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={line.total}
+                    onChange={(e) => updateLine(index, { total: Number(e.target.value) })}
+                    className={`${inputClass} w-24 text-right`}
+                  />
+                </td>
+                <td className={`${cellClass} text-right`}>
+                  <button onClick={() => setLines(receipt.lines.filter((_, position) => position !== index))} className="text-sm text-red-600 hover:underline">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <datalist id="receipt-categories">
+          {categories.map(category => <option key={category} value={category} />)}
+        </datalist>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+        <div className="text-sm">
+          <button onClick={() => setLines([...receipt.lines, BLANK_LINE])} className="text-blue-600 hover:underline mr-4">Add Line</button>
+          <span className={totalMismatch ? 'text-red-600' : 'text-gray-600'}>
+            Lines add up to {formatCurrency(linesTotal)}
+            {receipt.total !== null && `; the receipt total is ${formatCurrency(receipt.total)}`}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setReceipt(null)}
+            className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300"
+          >
+            Back
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!receipt.date || !receipt.store.trim()}
+            className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded transition duration-300"
+          >
+            Import {receipt.lines.length} Lines
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptTextImport;
@@ -0,0 +1,57 @@
+import type { Savings, TripSavings } from './engine';
+import { formatCurrency } from './format';
+
+interface SavingsPanelProps {
+  totalSavings: number;
+  byStore: Savings[];
+  byTrip: TripSavings[];
+}
+
+const SavingsPanel = ({ totalSavings, byStore, byTrip }: SavingsPanelProps) => {
+  if (totalSavings === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-bold">Savings from Discounts</h2>
+        <p className="text-3xl font-bold text-green-600">{formatCurrency(totalSavings)}</p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Store</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Saved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byStore.map(entry => (
+              <tr key={entry.name} className="hover:bg-gray-100">
+                <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{entry.name}</td>
+                <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatCurrency(entry.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600">Trip</th>
+              <th className="py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-right text-sm font-semibold text-gray-600">Saved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byTrip.map(entry => (
+              <tr key={entry.key} className="hover:bg-gray-100">
+                <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700">{entry.date} · {entry.store}</td>
+                <td className="py-2 px-4 border-b border-gray-200 text-sm text-gray-700 text-right">{formatCurrency(entry.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SavingsPanel;
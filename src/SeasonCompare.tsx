@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from 'react';
+import { datasetKey, datasetLines, loadDatasetFiles } from './datasets';
+import { EMPTY_HEADCOUNT, analyze, applyLineEdits, buildCategorizer, categorizeLines, compareSeasons } from './engine';
+import type { Catalog, CategorySettings, Dataset, LineEdits, Headcount, MetricDelta, ReceiptLine } from './engine';
+import { formatCurrency, formatPercentChange, formatPercentage, formatUnitPrice } from './format';
+import { loadJson } from './storage';
+import UploadSection from './UploadSection';
+
+interface SeasonCompareProps {
+  dataset: Dataset;
+  lines: ReceiptLine[];
+  headcount: Headcount;
+  datasets: Dataset[];
+  includeOverhead: boolean;
+  catalog: Catalog;
+  categories: CategorySettings;
+}
+
+interface Season {
+  name: string;
+  lines: ReceiptLine[];
+  headcount: Headcount;
+}
+
+const UPLOAD = '';
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const firstDate = (lines: ReceiptLine[]) =>
+  lines.reduce((first, line) => line.date < first ? line.date : first, '9999-12-31');
+
+const formatMetric = (metric: MetricDelta, value: number) =>
+  metric.kind === 'currency' ? formatCurrency(value) : String(value);
+
+const formatChange = (change: number | null) => change === null ? '—' : formatPercentChange(change);
+
+const changeClass = (change: number | null) =>
+  change === null || change === 0 ? '' : change > 0 ? 'text-red-600' : 'text-green-600';
+
+const SeasonCompare = ({ dataset, lines, headcount, datasets, includeOverhead, catalog, categories }: SeasonCompareProps) => {
+  const others = datasets.filter(option => option.id !== dataset.id);
+  const [otherId, setOtherId] = useState(others[0]?.id ?? UPLOAD);
+  const [otherLines, setOtherLines] = useState<ReceiptLine[]>([]);
+  const other = others.find(option => option.id === otherId) ?? null;
+
+  useEffect(() => {
+    setOtherLines([]);
+    if (!other) return;
+    let cancelled = false;
+    const loadOther = async () => {
+      try {
+        const files = await loadDatasetFiles(other);
+        if (!cancelled) setOtherLines(applyLineEdits(datasetLines(files, other), loadJson<LineEdits>(datasetKey(other, 'line-edits'), {})));
+      } catch (error) {
+        console.error("Error loading dataset:", error);
+      }
+    };
+
+    loadOther();
+    return () => { cancelled = true; };
+  }, [other]);
+
+  // The earlier season is the baseline the later one is measured against.
+  const [before, after] = useMemo(() => {
+    const current: Season = { name: dataset.name, lines, headcount };
+    const compared: Season = {
+      name: other?.name ?? 'Uploaded Receipts',
+      lines: categorizeLines(otherLines, buildCategorizer(otherLines, categories, catalog)),
+      headcount: other ? loadJson(datasetKey(other, 'headcount'), other.headcount ?? EMPTY_HEADCOUNT) : EMPTY_HEADCOUNT
+    };
+    return firstDate(compared.lines) < firstDate(current.lines) ? [compared, current] : [current, compared];
+  }, [dataset, lines, headcount, other, otherLines, categories, catalog]);
+
+  const comparison = useMemo(
+    () => otherLines.length === 0 ? null : compareSeasons(
+      analyze(before.lines, { includeOverhead, catalog, headcount: before.headcount }),
+      analyze(after.lines, { includeOverhead, catalog, headcount: after.headcount })
+    ),
+    [before, after, includeOverhead, catalog, otherLines]
+  );
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <div className="flex flex-wrap items-baseline justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold">Compare Seasons</h2>
+            <p className="text-sm text-gray-600">
+              Changes are {after.name} measured against {before.name}.
+            </p>
+          </div>
+          <select value={otherId} onChange={(e) => setOtherId(e.target.value)} className="px-2 py-1 border rounded">
+            {others.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+            <option value={UPLOAD}>Upload a CSV…</option>
+          </select>
+        </div>
+      </div>
+
+      {otherId === UPLOAD && <UploadSection onImport={(result) => setOtherLines(result.lines)} />}
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+            <div className="bg-white p-4 rounded-lg shadow">
+              <h2 className="text-xl font-bold mb-4">Totals</h2>
+              <table className="min-w-full bg-white">
+                <thead>
+                  <tr>
+                    <th className={`${headerClass} text-left`}></th>
+                    <th className={`${headerClass} text-right`}>{before.name}</th>
+                    <th className={`${headerClass} text-right`}>{after.name}</th>
+                    <th className={`${headerClass} text-right`}>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.metrics.map(metric => (
+                    <tr key={metric.label} className="hover:bg-gray-100">
+                      <td className={`${cellClass} font-semibold`}>{metric.label}</td>
+                      <td className={`${cellClass} text-right`}>{formatMetric(metric, metric.before)}</td>
+                      <td className={`${cellClass} text-right`}>{formatMetric(metric, metric.after)}</td>
+                      <td className={`${cellClass} text-right`}>{formatChange(metric.change)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white p-4 rounded-lg shadow">
+              <h2 className="text-xl font-bold mb-4">Spend per Trip by Store</h2>
+              <table className="min-w-full bg-white">
+                <thead>
+                  <tr>
+                    <th className={`${headerClass} text-left`}>Store</th>
+                    <th className={`${headerClass} text-right`}>{before.name}</th>
+                    <th className={`${headerClass} text-right`}>{after.name}</th>
+                    <th className={`${headerClass} text-right`}>Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.tripSpend.map(entry => (
+                    <tr key={entry.store} className="hover:bg-gray-100">
+                      <td className={cellClass}>{entry.store}</td>
+                      <td className={`${cellClass} text-right`}>{entry.before === null ? '—' : formatCurrency(entry.before)}</td>
+                      <td className={`${cellClass} text-right`}>{entry.after === null ? '—' : formatCurrency(entry.after)}</td>
+                      <td className={`${cellClass} text-right ${changeClass(entry.change)}`}>{formatChange(entry.change)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white p-4 rounded-lg shadow mb-6">
+            <h2 className="text-xl font-bold mb-4">Category Share</h2>
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className={`${headerClass} text-left`}>Category</th>
+                  <th className={`${headerClass} text-right`}>{before.name}</th>
+                  <th className={`${headerClass} text-right`}>{after.name}</th>
+                  <th className={`${headerClass} text-right`}>Share Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.categories.map(entry => (
+                  <tr key={entry.name} className="hover:bg-gray-100">
+                    <td className={cellClass}>{entry.name}</td>
+                    <td className={`${cellClass} text-right`}>
+                      {entry.before ? `${formatCurrency(entry.before.value)} (${formatPercentage(entry.before.percentage)})` : '—'}
+                    </td>
+                    <td className={`${cellClass} text-right`}>
+                      {entry.after ? `${formatCurrency(entry.after.value)} (${formatPercentage(entry.after.percentage)})` : '—'}
+                    </td>
+                    <td className={`${cellClass} text-right`}>
+                      {entry.shareChange > 0 ? '+' : ''}{entry.shareChange.toFixed(1)} pts
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white p-4 rounded-lg shadow">
+            <h2 className="text-xl font-bold mb-2">Item Prices</h2>
+            <p className="text-sm text-gray-600 mb-4">Shelf price per pound or per item, for everything bought in both seasons.</p>
+            {comparison.items.length > 0 ? (
+              <div className="max-h-96 overflow-y-auto">
+                <table className="min-w-full bg-white">
+                  <thead>
+                    <tr>
+                      <th className={`${headerClass} text-left`}>Item</th>
+                      <th className={`${headerClass} text-right`}>{before.name}</th>
+                      <th className={`${headerClass} text-right`}>{after.name}</th>
+                      <th className={`${headerClass} text-right`}>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.items.map(entry => (
+                      <tr key={entry.item} className="hover:bg-gray-100">
+                        <td className={cellClass}>
+                          {entry.item} <span className="text-gray-500">· {entry.category}</span>
+                        </td>
+                        <td className={`${cellClass} text-right`}>{formatUnitPrice({ price: entry.before, unit: entry.unit })}</td>
+                        <td className={`${cellClass} text-right`}>{formatUnitPrice({ price: entry.after, unit: entry.unit })}</td>
+                        <td className={`${cellClass} text-right ${changeClass(entry.change)}`}>{formatChange(entry.change)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-600">No items were bought in both seasons.</p>
+            )}
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default SeasonCompare;
@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { buildShoppingList, nextTripDate, predictRestock, shoppingListByStore, shoppingListEntry } from './engine';
+import type { ReconciledLine, RestockPrediction, ShoppingList, ShoppingListEntry } from './engine';
+import { formatUnitPrice } from './format';
+
+interface ShoppingListViewProps {
+  lines: ReconciledLine[];
+  stores: string[];
+  list: ShoppingList | null;
+  onChange: (list: ShoppingList | null) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+const secondaryButtonClass = 'px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300';
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+const describeDue = (prediction: RestockPrediction) => {
+  if (prediction.lapsed) return 'not bought lately';
+  if (prediction.daysUntilDue === 0) return 'on the trip';
+  const days = Math.abs(prediction.daysUntilDue);
+  return prediction.daysUntilDue < 0 ? `${days} days overdue` : `${days} days after`;
+};
+
+const ShoppingListView = ({ lines, stores, list, onChange }: ShoppingListViewProps) => {
+  const [tripDate, setTripDate] = useState(() => list?.tripDate ?? nextTripDate(lines) ?? today());
+  const [newItem, setNewItem] = useState('');
+  const [newStore, setNewStore] = useState(stores[0] ?? '');
+
+  const predictions = useMemo(() => predictRestock(lines, tripDate), [lines, tripDate]);
+  const entries = list?.entries ?? [];
+  const isListed = (item: string) => entries.some(entry => entry.item === item);
+
+  const setEntries = (next: ShoppingListEntry[]) => onChange({ tripDate, entries: next });
+  const updateEntry = (entry: ShoppingListEntry, changes: Partial<ShoppingListEntry>) =>
+    setEntries(entries.map(current => current === entry ? { ...entry, ...changes } : current));
+  const removeEntry = (entry: ShoppingListEntry) => setEntries(entries.filter(current => current !== entry));
+  const addPrediction = (prediction: RestockPrediction) => setEntries([...entries, shoppingListEntry(prediction)]);
+  const addItem = () => {
+    const item = newItem.trim();
+    if (!item || !newStore) return;
+    setEntries([...entries, { item, category: 'Other', store: newStore, quantity: 1, unit: 'each', checked: false }]);
+    setNewItem('');
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-4">
+          <h2 className="text-xl font-bold">Shopping List for {tripDate}</h2>
+          <div className="flex flex-wrap items-center gap-2 print:hidden">
+            <button
+              onClick={() => onChange(buildShoppingList(predictions, tripDate))}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition duration-300"
+            >
+              Generate from Predictions
+            </button>
+            <button onClick={() => setEntries(entries.filter(entry => !entry.checked))} className={secondaryButtonClass}>
+              Clear Checked
+            </button>
+            <button onClick={() => window.print()} className={secondaryButtonClass}>Print</button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-gray-600">Nothing on the list yet. Generate one from what is due, or add items below.</p>
+        ) : (
+          shoppingListByStore(entries).map(group => (
+            <div key={group.store} className="mb-4">
+              <h3 className="text-lg font-semibold mb-2">{group.store}</h3>
+              <ul>
+                {group.entries.map(entry => (
+                  <li key={`${entry.item}|${entry.store}`} className="flex flex-wrap items-center gap-3 py-1 border-b border-gray-200 text-sm text-gray-700">
+                    <input type="checkbox" checked={entry.checked} onChange={(e) => updateEntry(entry, { checked: e.target.checked })} />
+                    <span className={`flex-grow ${entry.checked ? 'line-through text-gray-400' : ''}`}>
+                      {entry.item} <span className="text-gray-500">· {entry.category}</span>
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={entry.quantity}
+                      onChange={(e) => updateEntry(entry, { quantity: Math.max(0, Number(e.target.value)) })}
+                      className={`${inputClass} w-20 text-right print:border-0`}
+                    />
+                    <span className="w-10">{entry.unit}</span>
+                    <select
+                      value={entry.store}
+                      onChange={(e) => updateEntry(entry, { store: e.target.value })}
+                      className={`${inputClass} text-sm print:hidden`}
+                    >
+                      {[...new Set([...stores, entry.store])].map(store => <option key={store} value={store}>{store}</option>)}
+                    </select>
+                    <button onClick={() => removeEntry(entry)} className="text-sm text-red-600 hover:underline print:hidden">Remove</button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+
+        <div className="flex flex-wrap gap-2 mt-4 print:hidden">
+          <input
+            type="text"
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addItem()}
+            placeholder="Item"
+            className={inputClass}
+          />
+          <select value={newStore} onChange={(e) => setNewStore(e.target.value)} className={inputClass}>
+            {stores.map(store => <option key={store} value={store}>{store}</option>)}
+          </select>
+          <button onClick={addItem} className={secondaryButtonClass}>Add Item</button>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow print:hidden">
+        <div className="flex flex-wrap items-baseline justify-between gap-4 mb-2">
+          <h2 className="text-xl font-bold">Restock Predictions</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Next trip
+            <input type="date" value={tripDate} onChange={(e) => e.target.value && setTripDate(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Items bought on at least three days, expected to run out after their usual gap between purchases. Items
+          missed for two of those gaps in a row are left off the generated list. The store is where each item has
+          been cheapest per pound or per item.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Item</th>
+                <th className={`${headerClass} text-right`}>Every</th>
+                <th className={`${headerClass} text-right`}>Usually</th>
+                <th className={`${headerClass} text-left`}>Last Bought</th>
+                <th className={`${headerClass} text-left`}>Due</th>
+                <th className={`${headerClass} text-left`}>Cheapest At</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {predictions.map(prediction => (
+                <tr key={prediction.item} className={`hover:bg-gray-100 ${prediction.lapsed ? 'text-gray-400' : ''}`}>
+                  <td className={cellClass}>
+                    {prediction.item} <span className="text-gray-500">· {prediction.category}</span>
+                  </td>
+                  <td className={`${cellClass} text-right`}>{Math.round(prediction.interval)} days</td>
+                  <td className={`${cellClass} text-right`}>{prediction.quantity} {prediction.unit}</td>
+                  <td className={cellClass}>{prediction.lastPurchased}</td>
+                  <td className={`${cellClass} ${prediction.due ? 'text-orange-600 font-semibold' : ''}`}>
+                    {prediction.nextDue} ({describeDue(prediction)})
+                  </td>
+                  <td className={cellClass}>
+                    {prediction.store}
+                    {prediction.unitPrice && <span className="text-gray-500"> · {formatUnitPrice(prediction.unitPrice)}</span>}
+                  </td>
+                  <td className={`${cellClass} text-right`}>
+                    {isListed(prediction.item) ? (
+                      <span className="text-gray-400">Listed</span>
+                    ) : (
+                      <button onClick={() => addPrediction(prediction)} className="text-sm text-blue-600 hover:underline">Add</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default ShoppingListView;
@@ -0,0 +1,148 @@
+import { useMemo } from 'react';
+import { compareStores } from './engine';
+import type { ReconciledLine } from './engine';
+import { formatCurrency, formatPercentChange, formatPercentage, formatUnitPrice } from './format';
+
+interface StoresViewProps {
+  lines: ReconciledLine[];
+  onSelectItem: (item: string) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const StoresView = ({ lines, onSelectItem }: StoresViewProps) => {
+  const comparison = useMemo(() => compareStores(lines), [lines]);
+
+  if (comparison.stores.length < 2) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow">
+        <p className="text-gray-600">These receipts are all from one store, so there is nothing to compare it with.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <div className="flex items-baseline justify-between mb-2">
+          <h2 className="text-xl font-bold">Buying Each Item Where It Was Cheapest</h2>
+          <p className="text-3xl font-bold text-green-600">{formatCurrency(comparison.savings)}</p>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          What the items bought at more than one store would have cost less had every pound or item come from the store
+          with the lowest shelf price. Only items with the same name at both stores are compared; link receipt names to one
+          product under Products to compare more of them.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Store</th>
+                <th className={`${headerClass} text-right`}>Trips</th>
+                <th className={`${headerClass} text-right`}>Spent</th>
+                <th className={`${headerClass} text-right`}>Items</th>
+                <th className={`${headerClass} text-right`}>Also Bought Elsewhere</th>
+                <th className={`${headerClass} text-right`}>Spent on Those</th>
+                <th className={`${headerClass} text-right`}>Paid Over Cheapest</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.stores.map(entry => (
+                <tr key={entry.store} className="hover:bg-gray-100">
+                  <td className={cellClass}>{entry.store}</td>
+                  <td className={`${cellClass} text-right`}>{entry.trips}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(entry.spent)}</td>
+                  <td className={`${cellClass} text-right`}>{entry.items}</td>
+                  <td className={`${cellClass} text-right`}>{entry.sharedItems}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(entry.sharedSpent)}</td>
+                  <td className={`py-2 px-4 border-b border-gray-200 text-sm text-right ${entry.overpaid > 0.005 ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>{formatCurrency(entry.overpaid)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6">
+        <h2 className="text-xl font-bold mb-2">Basket Overlap</h2>
+        <p className="text-sm text-gray-600 mb-4">Distinct items bought at both stores of each pair, and at only one of them.</p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Stores</th>
+                <th className={`${headerClass} text-right`}>Both</th>
+                <th className={`${headerClass} text-right`}>First Only</th>
+                <th className={`${headerClass} text-right`}>Second Only</th>
+                <th className={`${headerClass} text-right`}>Overlap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.overlaps.map(entry => (
+                <tr key={entry.stores.join('|')} className="hover:bg-gray-100">
+                  <td className={cellClass}>{entry.stores[0]} &amp; {entry.stores[1]}</td>
+                  <td className={`${cellClass} text-right`}>{entry.shared}</td>
+                  <td className={`${cellClass} text-right`}>{entry.firstOnly}</td>
+                  <td className={`${cellClass} text-right`}>{entry.secondOnly}</td>
+                  <td className={`${cellClass} text-right`}>{formatPercentage(entry.similarity * 100)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h2 className="text-xl font-bold mb-2">Items Bought at More Than One Store ({comparison.items.length})</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Shelf prices per pound or per item, cheapest first. Prices more than three times apart are greyed out: one store
+          is most likely selling a bag where the other sells one, so they are left out of the savings.
+        </p>
+        {comparison.items.length === 0 ? (
+          <p className="text-gray-600">No item was bought at more than one store under the same name.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr>
+                  <th className={`${headerClass} text-left`}>Item</th>
+                  <th className={`${headerClass} text-left`}>Category</th>
+                  <th className={`${headerClass} text-left`}>Price by Store</th>
+                  <th className={`${headerClass} text-left`}>Cheapest</th>
+                  <th className={`${headerClass} text-right`}>Spread</th>
+                  <th className={`${headerClass} text-right`}>Could Have Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.items.map(entry => (
+                  <tr
+                    key={entry.item}
+                    className={`hover:bg-gray-100 cursor-pointer ${entry.comparable ? '' : 'opacity-50'}`}
+                    onClick={() => onSelectItem(entry.item)}
+                  >
+                    <td className={cellClass}>{entry.item}</td>
+                    <td className={cellClass}>{entry.category}</td>
+                    <td className={cellClass}>
+                      {entry.prices.map(price => (
+                        <div key={price.store}>
+                          {price.store}: {formatUnitPrice(price)}{' '}
+                          <span className="text-gray-500">({Number(price.amount.toFixed(2))} {price.unit} in {price.purchases} purchases)</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className={cellClass}>{entry.cheapest}</td>
+                    <td className={`${cellClass} text-right`}>{formatPercentChange(entry.spread)}</td>
+                    <td className={`${cellClass} text-right`}>{entry.comparable ? formatCurrency(entry.savings) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default StoresView;
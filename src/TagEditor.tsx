@@ -0,0 +1,187 @@
+import { useMemo, useState } from 'react';
+import { DEFAULT_TAG_RULES, normalizeItemName, parseTags, setItemTags } from './engine';
+import type { ReceiptLine, TagRule, TagSettings } from './engine';
+
+interface TagEditorProps {
+  lines: ReceiptLine[];
+  settings: TagSettings;
+  onChange: (settings: TagSettings) => void;
+}
+
+const FIELDS: { field: TagRule['field']; label: string }[] = [
+  { field: 'item', label: 'Item name' },
+  { field: 'category', label: 'Category' },
+  { field: 'store', label: 'Store' }
+];
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-left text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+const inputClass = 'px-2 py-1 border rounded';
+
+const BLANK_RULE: TagRule = { field: 'item', pattern: '', tag: '' };
+
+const TagEditor = ({ lines, settings, onChange }: TagEditorProps) => {
+  const [newRule, setNewRule] = useState<TagRule>(BLANK_RULE);
+  const [item, setItem] = useState('');
+  const [tags, setTags] = useState('');
+  const itemNames = useMemo(
+    () => [...new Set(lines.flatMap(line => [line.item, line.rawItem ?? line.item]))].sort(),
+    [lines]
+  );
+  const tagged = Object.entries(settings.items).sort(([a], [b]) => a.localeCompare(b));
+
+  const setRules = (rules: TagRule[]) => onChange({ ...settings, rules });
+  const updateRule = (index: number, change: Partial<TagRule>) =>
+    setRules(settings.rules.map((entry, position) => position === index ? { ...entry, ...change } : entry));
+
+  const addRule = () => {
+    if (!newRule.pattern.trim() || !newRule.tag.trim()) return;
+    setRules([...settings.rules, { ...newRule, pattern: newRule.pattern.trim(), tag: newRule.tag.trim() }]);
+    setNewRule(BLANK_RULE);
+  };
+
+  // Picking an item already tagged by hand fills in its tags to edit.
+  const chooseItem = (name: string) => {
+    setItem(name);
+    const current = settings.items[normalizeItemName(name)];
+    if (current) setTags(current.join(', '));
+  };
+
+  const saveItemTags = () => {
+    if (!item.trim()) return;
+    onChange(setItemTags(settings, item, parseTags(tags)));
+    setItem('');
+    setTags('');
+  };
+
+  return (
+    <>
+      <div className="bg-white p-4 rounded-lg shadow mt-6">
+        <h2 className="text-xl font-bold mb-2">Item Tags ({tagged.length})</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Tags given by hand, such as shared or personal, apply to every purchase of the item under its receipt name or its
+          product name, on top of the tags the rules give it.
+        </p>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            type="text"
+            list="tag-items"
+            value={item}
+            onChange={(e) => chooseItem(e.target.value)}
+            placeholder="Item"
+            className={`${inputClass} w-64`}
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveItemTags()}
+            placeholder="Tags, separated by commas"
+            className={`${inputClass} w-64`}
+          />
+          <button onClick={saveItemTags} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+            Save Tags
+          </button>
+          <datalist id="tag-items">
+            {itemNames.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+        {tagged.length > 0 && (
+          <table className="min-w-full bg-white">
+            <tbody>
+              {tagged.map(([name, itemTags]) => (
+                <tr key={name} className="hover:bg-gray-100">
+                  <td className={`${cellClass} font-mono`}>{name}</td>
+                  <td className={cellClass}>{itemTags.map(tag => `#${tag}`).join(' ')}</td>
+                  <td className={`${cellClass} text-right space-x-3`}>
+                    <button onClick={() => chooseItem(name)} className="text-sm text-blue-600 hover:underline">Edit</button>
+                    <button onClick={() => onChange(setItemTags(settings, name, []))} className="text-sm text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold">Tag Rules ({settings.rules.length})</h2>
+          <button onClick={() => setRules(DEFAULT_TAG_RULES)} className="text-sm text-blue-600 hover:underline">
+            Reset to Defaults
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Every line whose field matches a pattern gets the rule's tag. Patterns are regular expressions, matched without
+          regard to case; item patterns are tried on both the receipt name and the product name.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={headerClass}>Field</th>
+                <th className={headerClass}>Pattern</th>
+                <th className={headerClass}>Tag</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {settings.rules.map((entry, index) => (
+                <tr key={index} className="hover:bg-gray-100">
+                  <td className={cellClass}>
+                    <select value={entry.field} onChange={(e) => updateRule(index, { field: e.target.value as TagRule['field'] })} className={inputClass}>
+                      {FIELDS.map(option => <option key={option.field} value={option.field}>{option.label}</option>)}
+                    </select>
+                  </td>
+                  <td className={cellClass}>
+                    <input
+                      type="text"
+                      value={entry.pattern}
+                      onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                      className={`${inputClass} w-full font-mono`}
+                    />
+                  </td>
+                  <td className={cellClass}>
+                    <input type="text" value={entry.tag} onChange={(e) => updateRule(index, { tag: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className={`${cellClass} text-right`}>
+                    <button onClick={() => setRules(settings.rules.filter((_, position) => position !== index))} className="text-sm text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex gap-2 mt-4">
+          <select value={newRule.field} onChange={(e) => setNewRule({ ...newRule, field: e.target.value as TagRule['field'] })} className={inputClass}>
+            {FIELDS.map(option => <option key={option.field} value={option.field}>{option.label}</option>)}
+          </select>
+          <input
+            type="text"
+            value={newRule.pattern}
+            onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+            placeholder="Pattern"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="text"
+            value={newRule.tag}
+            onChange={(e) => setNewRule({ ...newRule, tag: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && addRule()}
+            placeholder="Tag"
+            className={inputClass}
+          />
+          <button onClick={addRule} className="px-4 py-2 rounded border border-gray-300 hover:bg-gray-100 transition duration-300">
+            Add Rule
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TagEditor;
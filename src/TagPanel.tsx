@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { summarizeByTag, tagShareByPeriod } from './engine';
+import type { ReceiptLine, TimeGranularity } from './engine';
+import { formatCurrency, formatPercentage } from './format';
+
+interface TagPanelProps {
+  lines: ReceiptLine[];
+  granularity: TimeGranularity;
+  onSelect: (tag: string) => void;
+}
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-2 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const TagPanel = ({ lines, granularity, onSelect }: TagPanelProps) => {
+  const summaries = useMemo(() => summarizeByTag(lines), [lines]);
+  const [chosen, setChosen] = useState('');
+  const tag = summaries.some(entry => entry.tag === chosen) ? chosen : summaries[0]?.tag ?? '';
+  const shares = useMemo(() => tag ? tagShareByPeriod(lines, tag, granularity) : [], [lines, tag, granularity]);
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <h2 className="text-xl font-bold mb-2">Spending by Tag</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        A line can carry several tags, so the shares can add up to more than 100%. Click a tag to filter the dashboard to it.
+      </p>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Tag</th>
+                <th className={`${headerClass} text-right`}>Spent</th>
+                <th className={`${headerClass} text-right`}>Share of Spend</th>
+                <th className={`${headerClass} text-right`}>Lines</th>
+                <th className={`${headerClass} text-right`}>Items</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(entry => (
+                <tr key={entry.tag} className="hover:bg-gray-100 cursor-pointer" onClick={() => onSelect(entry.tag)}>
+                  <td className={cellClass}>#{entry.tag}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(entry.total)}</td>
+                  <td className={`${cellClass} text-right`}>{formatPercentage(entry.share * 100)}</td>
+                  <td className={`${cellClass} text-right`}>{entry.lines}</td>
+                  <td className={`${cellClass} text-right`}>{entry.items}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Share of Spend Tagged</h3>
+            <select value={tag} onChange={(e) => setChosen(e.target.value)} className="px-2 py-1 border rounded text-sm">
+              {summaries.map(entry => <option key={entry.tag} value={entry.tag}>#{entry.tag}</option>)}
+            </select>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={shares} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis tickFormatter={(value) => formatPercentage(Number(value) * 100)} />
+                <Tooltip
+                  formatter={(value) => formatPercentage(Number(value) * 100)}
+                  labelFormatter={(label, payload) => {
+                    const point = payload[0]?.payload;
+                    return point ? `${label} · ${formatCurrency(point.tagged)} of ${formatCurrency(point.total)}` : label;
+                  }}
+                />
+                <Line type="monotone" dataKey="share" name={`#${tag}`} stroke="#00C49F" activeDot={{ r: 8 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagPanel;
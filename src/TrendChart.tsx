@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GRANULARITY_LABELS, summarizeTrend } from './engine';
+import type { Headcount, ReceiptLine, TimeGranularity, TrendBreakdown, TrendPoint } from './engine';
+import { formatCurrency } from './format';
+
+interface TrendChartProps {
+  lines: ReceiptLine[];
+  headcount: Headcount | null; // enables the per-person view
+  granularity: TimeGranularity;
+  onGranularityChange: (granularity: TimeGranularity) => void;
+  onSelectRange: (from: string, to: string) => void;
+  selectionAction?: ReactNode; // shown beside the title while a period is selected
+}
+
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FF6B6B'];
+const GRANULARITIES: TimeGranularity[] = ['trip', 'day', 'week', 'month'];
+const BREAKDOWNS: { id: TrendBreakdown; label: string }[] = [
+  { id: 'total', label: 'Total' },
+  { id: 'category', label: 'By Category' },
+  { id: 'store', label: 'By Store' },
+  { id: 'tag', label: 'By Tag' }
+];
+const AVERAGE_WINDOW = 3;
+
+const optionClass = (active: boolean) =>
+  `px-3 py-1 text-sm border transition duration-300 first:rounded-l last:rounded-r ${
+    active ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+  }`;
+
+const TrendChart = ({ lines, headcount, granularity, onGranularityChange, onSelectRange, selectionAction }: TrendChartProps) => {
+  const [breakdown, setBreakdown] = useState<TrendBreakdown>('total');
+  const [showAverage, setShowAverage] = useState(true);
+  const [perPerson, setPerPerson] = useState(false);
+  const perPersonHeadcount = perPerson && headcount ? headcount : undefined;
+
+  const trend = useMemo(
+    () => summarizeTrend(lines, granularity, { breakdown, averageWindow: AVERAGE_WINDOW, headcount: perPersonHeadcount }),
+    [lines, granularity, breakdown, perPersonHeadcount]
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold">Spending Trend{perPersonHeadcount && ' per Person-Day'}</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          {selectionAction}
+          <div className="flex">
+            {GRANULARITIES.map(option => (
+              <button key={option} onClick={() => onGranularityChange(option)} className={optionClass(option === granularity)}>
+                {GRANULARITY_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex">
+            {BREAKDOWNS.map(option => (
+              <button key={option.id} onClick={() => setBreakdown(option.id)} className={optionClass(option.id === breakdown)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {headcount && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={perPerson} onChange={(e) => setPerPerson(e.target.checked)} />
+              Per person
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showAverage} onChange={(e) => setShowAverage(e.target.checked)} />
+            {AVERAGE_WINDOW}-{GRANULARITY_LABELS[granularity].toLowerCase()} average
+          </label>
+        </div>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={trend.points}
+            onClick={(state) => {
+              const point: TrendPoint | undefined = state?.activePayload?.[0]?.payload;
+              if (point) onSelectRange(point.from, point.to);
+            }}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis tickFormatter={(value) => formatCurrency(Number(value))} />
+            <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+            <Legend />
+            {breakdown === 'total' ? (
+              <Line type="monotone" dataKey="spent" name="Spent" stroke="#8884d8" activeDot={{ r: 8 }} />
+            ) : (
+              trend.series.map((name, index) => (
+                <Bar
+                  key={name}
+                  dataKey={(point: TrendPoint) => point.breakdown[name] ?? 0}
+                  name={name}
+                  stackId="spent"
+                  fill={COLORS[index % COLORS.length]}
+                />
+              ))
+            )}
+            {showAverage && (
+              <Line
+                type="monotone"
+                dataKey="rollingAverage"
+                name={`${AVERAGE_WINDOW}-${GRANULARITY_LABELS[granularity].toLowerCase()} average`}
+                stroke="#FF6B6B"
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { describeFocus, distribution, lineMatchesFocus, tripsMatching } from './engine';
+import type { Trip, TripFocus } from './engine';
+import { formatCurrency } from './format';
+
+interface TripsViewProps {
+  trips: Trip[];
+  focus: TripFocus | null;
+  onClearFocus: () => void;
+}
+
+const SPEND_BUCKET = 50;
+const BASKET_BUCKET = 10;
+
+const headerClass = 'py-2 px-4 border-b-2 border-gray-200 bg-gray-100 text-sm font-semibold text-gray-600';
+const cellClass = 'py-1 px-4 border-b border-gray-200 text-sm text-gray-700';
+
+const Receipt = ({ trip, focus, expanded, onToggle }: { trip: Trip; focus: TripFocus | null; expanded: boolean; onToggle: () => void }) => {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-4">
+      <button onClick={onToggle} className="w-full flex items-center justify-between text-left">
+        <div>
+          <h3 className="text-lg font-semibold">{trip.store}</h3>
+          <p className="text-sm text-gray-600">{trip.date} · {trip.itemCount} items</p>
+        </div>
+        <p className="text-2xl font-bold text-blue-600">{formatCurrency(trip.total)}</p>
+      </button>
+
+      {expanded && (
+        <div className="overflow-x-auto mt-4">
+          <table className="min-w-full bg-white font-mono">
+            <thead>
+              <tr>
+                <th className={`${headerClass} text-left`}>Item</th>
+                <th className={`${headerClass} text-left`}>Category</th>
+                <th className={`${headerClass} text-right`}>Quantity</th>
+                <th className={`${headerClass} text-right`}>Price</th>
+                <th className={`${headerClass} text-right`}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trip.lines.map((line, index) => (
+                <tr key={index} className={focus && lineMatchesFocus(line, focus) ? 'bg-yellow-50' : 'hover:bg-gray-100'}>
+                  <td className={cellClass}>
+                    {line.item}
+                    {line.discountLines.map((discount, discountIndex) => (
+                      <div key={discountIndex} className="pl-4 text-green-700">
+                        {discount.item} {formatCurrency(discount.total)}
+                      </div>
+                    ))}
+                  </td>
+                  <td className={cellClass}>{line.category}</td>
+                  <td className={`${cellClass} text-right`}>{line.quantity} {line.unit}</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(line.price)}</td>
+                  <td className={`${cellClass} text-right`}>
+                    {line.total !== line.gross && (
+                      <span className="mr-2 text-gray-400 line-through">{formatCurrency(line.gross)}</span>
+                    )}
+                    {formatCurrency(line.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={4} className={`${cellClass} text-right`}>Subtotal</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(trip.subtotal)}</td>
+              </tr>
+              {trip.discounts > 0 && (
+                <tr>
+                  <td colSpan={4} className={`${cellClass} text-right text-green-700`}>Savings</td>
+                  <td className={`${cellClass} text-right text-green-700`}>{formatCurrency(trip.discounts)}</td>
+                </tr>
+              )}
+              <tr>
+                <td colSpan={4} className={`${cellClass} text-right`}>Tax</td>
+                <td className={`${cellClass} text-right`}>{formatCurrency(trip.tax)}</td>
+              </tr>
+              {trip.fees !== 0 && (
+                <tr>
+                  <td colSpan={4} className={`${cellClass} text-right`}>Bag Fees &amp; Deposits</td>
+                  <td className={`${cellClass} text-right`}>{formatCurrency(trip.fees)}</td>
+                </tr>
+              )}
+              <tr>
+                <td colSpan={4} className={`${cellClass} text-right font-bold`}>Total</td>
+                <td className={`${cellClass} text-right font-bold`}>{formatCurrency(trip.total)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TripsView = ({ trips, focus, onClearFocus }: TripsViewProps) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const shownTrips = focus ? tripsMatching(trips, focus) : trips;
+  const spendData = distribution(shownTrips.map(trip => trip.total), SPEND_BUCKET, value => `$${value}`);
+  const basketData = distribution(shownTrips.map(trip => trip.itemCount), BASKET_BUCKET);
+
+  return (
+    <>
+      {focus && (
+        <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg mb-6 flex items-center justify-between">
+          <p className="text-gray-700">
+            Showing {shownTrips.length} of {trips.length} trips that include <span className="font-semibold">{describeFocus(focus)}</span>
+          </p>
+          <button
+            onClick={onClearFocus}
+            className="px-4 py-2 rounded border border-gray-300 bg-white hover:bg-gray-100 transition duration-300"
+          >
+            Show All Trips
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white p-4 rounded-lg shadow">
+          <h2 className="text-xl font-bold mb-4">Spend per Trip</h2>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={spendData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count" fill="#0088FE" name="Trips" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow">
+          <h2 className="text-xl font-bold mb-4">Basket Size</h2>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={basketData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count" fill="#00C49F" name="Trips" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {shownTrips.map(trip => (
+        <Receipt
+          key={trip.key}
+          trip={trip}
+          focus={focus}
+          expanded={expanded[trip.key] ?? focus !== null}
+          onToggle={() => setExpanded({ ...expanded, [trip.key]: !(expanded[trip.key] ?? focus !== null) })}
+        />
+      ))}
+    </>
+  );
+};
+
+export default TripsView;
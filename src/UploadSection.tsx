@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import ColumnMappingStep from './ColumnMappingStep';
+import { columnNames, findSavedMapping, guessMapping, importCsv, readCsvRows, reuseMapping, sourceNameFromFile } from './engine';
+import type { ColumnMapping, ImportResult, SavedMapping } from './engine';
+import { usePersistentState } from './storage';
+
+interface PendingImport {
+  fileName: string;
+  csvData: string;
+  rows: string[][];
+  mapping: ColumnMapping;
+  source: string;
+}
+
+interface UploadSectionProps {
+  onImport: (result: ImportResult, fileName: string) => void;
+  title?: string;
+}
+
+const UploadSection = ({ onImport, title = 'Upload Your Grocery Receipt CSV' }: UploadSectionProps) => {
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [savedMappings, setSavedMappings] = usePersistentState<SavedMapping[]>('column-mappings', []);
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      setLoading(true);
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const csvData = e.target?.result;
+        if (typeof csvData === 'string') {
+          const rows = readCsvRows(csvData);
+          const source = sourceNameFromFile(file.name);
+          const saved = findSavedMapping(savedMappings, source, rows);
+          setPending({
+            fileName: file.name,
+            csvData,
+            rows,
+            mapping: (saved && reuseMapping(saved, rows)) ?? guessMapping(rows),
+            source: saved?.source ?? source
+          });
+        }
+        setLoading(false);
+      };
+      reader.readAsText(file);
+    }
+  };
+
+  const handleConfirm = (mapping: ColumnMapping, source: string, remember: boolean) => {
+    if (!pending) return;
+
+    if (remember && source) {
+      const entry: SavedMapping = { source, columns: columnNames(pending.rows, mapping.hasHeader), mapping };
+      setSavedMappings([...savedMappings.filter(saved => saved.source !== source), entry]);
+    }
+
+    onImport(importCsv(pending.csvData, mapping), pending.fileName);
+    setPending(null);
+  };
+
+  if (pending) {
+    return (
+      <ColumnMappingStep
+        key={pending.fileName}
+        fileName={pending.fileName}
+        rows={pending.rows}
+        initialMapping={pending.mapping}
+        initialSource={pending.source}
+        onConfirm={handleConfirm}
+        onCancel={() => setPending(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow mb-6 text-center print:hidden">
+      <h2 className="text-xl font-bold mb-4">{title}</h2>
+      <p className="mb-4 text-gray-600">
+        Upload a CSV file with your grocery receipts to analyze your spending patterns.
+        Files with a header row are matched automatically; otherwise the expected order is
+        Date, Store, Category, Item, Quantity, Unit, Price, Total. You can adjust the columns before importing.
+      </p>
+      <div className="flex justify-center mb-4">
+        <label className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded cursor-pointer transition duration-300">
+          <span>Select CSV File</span>
+          <input
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={handleFileUpload}
+          />
+        </label>
+      </div>
+      {loading && <p className="text-gray-600">Processing your data...</p>}
+      {savedMappings.length > 0 && (
+        <p className="text-sm text-gray-500">
+          Saved mappings: {savedMappings.map(saved => saved.source).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UploadSection;
@@ -0,0 +1,25 @@
+interface ViewTabsProps<T extends string> {
+  tabs: { id: T; label: string }[];
+  active: T;
+  onChange: (id: T) => void;
+}
+
+const ViewTabs = <T extends string>({ tabs, active, onChange }: ViewTabsProps<T>) => {
+  return (
+    <div className="flex flex-wrap justify-center gap-2 mb-6 print:hidden">
+      {tabs.map(tab => (
+        <button
+          key={tab.id}
+          onClick={() => onChange(tab.id)}
+          className={`px-4 py-2 rounded-lg font-semibold transition duration-300 ${
+            tab.id === active ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ViewTabs;
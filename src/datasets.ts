@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { dropDuplicates, importCsv, replaceLines, scopeToDataset } from './engine';
+import type { Dataset, ImportResult, ReceiptLine } from './engine';
+import { loadJson, saveJson } from './storage';
+import { getStoredDataset, newId, updateStoredDataset } from './uploads';
+import type { StoredDataset, StoredFile } from './uploads';
+
+// One imported file of a dataset.
+export interface LoadedFile {
+  id: string;
+  fileName: string;
+  result: ImportResult;
+  stored: boolean; // false for the file a built-in dataset ships with
+  duplicates: string[]; // line keys already imported from another file
+}
+
+// Every season the dashboard knows about. Add one here to give it its own
+// title, data, people and ledger.
+export const DATASETS: Dataset[] = [
+  {
+    id: 'freeside-2025',
+    name: 'Freeside 2025',
+    title: '2025 Freeside Grocery Shopping Analysis Dashboard',
+    source: '/combined_grocery_data.csv',
+    from: '2025-01-01',
+    to: '2025-12-31'
+  },
+  {
+    id: 'upload',
+    name: 'Uploaded Receipts',
+    title: 'Grocery Shopping Analysis Dashboard'
+  }
+];
+
+export const isBuiltIn = (dataset: Dataset): boolean => DATASETS.some(entry => entry.id === dataset.id);
+
+// The built-in datasets followed by the ones created from uploads. A built-in
+// dataset can have uploads stored too, but keeps its own name.
+export const withStoredDatasets = (stored: StoredDataset[]): Dataset[] => [
+  ...DATASETS,
+  ...stored
+    .filter(entry => !DATASETS.some(dataset => dataset.id === entry.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(entry => ({ id: entry.id, name: entry.name, title: entry.name }))
+];
+
+export const findDataset = (datasets: Dataset[], id: string): Dataset =>
+  datasets.find(dataset => dataset.id === id) ?? datasets[0];
+
+// Settings that belong to one season are stored under its id.
+export const datasetKey = (dataset: Pick<Dataset, 'id'>, key: string): string => `${key}:${dataset.id}`;
+
+const SOURCE_FILE = 'source';
+
+// Corrections from the import report to the file a dataset ships with, by
+// line number. The file itself cannot be changed, so they are applied again
+// every time it is loaded.
+const sourceFixesKey = (dataset: Pick<Dataset, 'id'>) => datasetKey(dataset, 'source-fixes');
+
+// The file a dataset ships with, then everything uploaded into it, oldest
+// first. Uploads are read again from their saved text, so fixes to the import
+// rules reach them too.
+export const loadDatasetFiles = async (dataset: Pick<Dataset, 'id' | 'source'>): Promise<LoadedFile[]> => {
+  const files: LoadedFile[] = [];
+  if (dataset.source) {
+    const response = await fetch(dataset.source);
+    const csvData = replaceLines(await response.text(), loadJson<Record<number, string>>(sourceFixesKey(dataset), {}));
+    files.push({ id: SOURCE_FILE, fileName: dataset.source, result: importCsv(csvData), stored: false, duplicates: [] });
+  }
+
+  try {
+    const stored = await getStoredDataset(dataset.id);
+    stored?.files.forEach(file => {
+      files.push({
+        id: file.id,
+        fileName: file.fileName,
+        result: importCsv(file.csvData, file.mapping),
+        stored: true,
+        duplicates: file.duplicates ?? []
+      });
+    });
+  } catch (error) {
+    console.error("Error reading stored uploads:", error);
+  }
+  return files;
+};
+
+// Every file's lines less the ones found to be duplicates when it was merged.
+// Each line is identified by its file and the line of the file it was read
+// from, which stays the same when a rejected row above it is fixed.
+export const mergedLines = (files: LoadedFile[]): ReceiptLine[] =>
+  files.flatMap(file => dropDuplicates(
+    file.result.lines.map(line => ({ ...line, id: `${file.id}#${line.lineNumber}` })),
+    file.duplicates
+  ));
+
+export const datasetLines = (files: LoadedFile[], dataset: Dataset): ReceiptLine[] =>
+  scopeToDataset(mergedLines(files), dataset);
+
+const saveFiles = (dataset: Dataset, change: (files: StoredFile[]) => StoredFile[]) =>
+  updateStoredDataset(dataset.id, dataset.name, stored => ({ ...stored, files: change(stored.files) }))
+    .catch(error => console.error("Error saving uploads:", error));
+
+// A dataset's files, loaded on mount. New uploads are appended rather than
+// replacing what is there, and every change is saved for the next visit.
+// Loading follows the dataset's id, not the object, which is rebuilt whenever
+// the list of datasets is refreshed.
+export const useDatasetFiles = (dataset: Dataset) => {
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const { id, source } = dataset;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loadedFiles = await loadDatasetFiles({ id, source });
+        if (!cancelled) setFiles(loadedFiles);
+      } catch (error) {
+        console.error("Error loading dataset:", error);
+      }
+      if (!cancelled) setLoaded(true);
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [id, source]);
+
+  const addFile = (result: ImportResult, fileName: string, duplicates: string[] = []) => {
+    const file: StoredFile = { id: newId(), fileName, csvData: result.csvData, mapping: result.mapping, importedAt: new Date().toISOString(), duplicates };
+    setFiles(current => [...current, { id: file.id, fileName, result, stored: true, duplicates }]);
+    saveFiles(dataset, stored => [...stored, file]);
+  };
+
+  // Corrections from the import report are saved into the stored text, or
+  // kept beside the file a dataset ships with.
+  const updateFile = (id: string, result: ImportResult, fixes: Record<number, string>) => {
+    setFiles(current => current.map(file => file.id === id ? { ...file, result } : file));
+    if (id === SOURCE_FILE) {
+      saveJson(sourceFixesKey(dataset), { ...loadJson<Record<number, string>>(sourceFixesKey(dataset), {}), ...fixes });
+      return;
+    }
+    saveFiles(dataset, stored => stored.map(file => file.id === id ? { ...file, csvData: result.csvData, mapping: result.mapping } : file));
+  };
+
+  const reimportFile = (id: string) => {
+    setFiles(current => current.map(file => file.id === id ? { ...file, result: importCsv(file.result.csvData, file.result.mapping) } : file));
+  };
+
+  const removeFile = (id: string) => {
+    setFiles(current => current.filter(file => file.id !== id));
+    saveFiles(dataset, stored => stored.filter(file => file.id !== id));
+  };
+
+  return { files, loaded, addFile, updateFile, reimportFile, removeFile };
+};
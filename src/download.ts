@@ -0,0 +1,9 @@
+// Hands a generated file to the browser as a download.
+export const downloadFile = (filename: string, contents: string, type = 'text/csv') => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,109 @@
+import type {
+  Budget,
+  BudgetPeriod,
+  BudgetPeriodSpend,
+  BudgetStatus,
+  BudgetSummary,
+  BurnDownPoint,
+  ReceiptLine
+} from './types';
+import { addDays, daysBetween, isoWeek, lastDayOfMonth, monthKey } from './keys';
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  week: 'Week',
+  month: 'Month'
+};
+
+// The week (Monday to Sunday) or calendar month holding a date.
+export const budgetPeriodOf = (date: string, period: BudgetPeriod): { key: string; from: string; to: string } => {
+  if (period === 'week') return isoWeek(date);
+  const month = monthKey(date);
+  return { key: month, from: `${month}-01`, to: lastDayOfMonth(month) };
+};
+
+const spentBetween = (lines: ReceiptLine[], category: string, from: string, to: string): number =>
+  lines
+    .filter(line => line.category === category && from <= line.date && line.date <= to)
+    .reduce((sum, line) => sum + line.total, 0);
+
+const latestDate = (lines: ReceiptLine[]): string | null =>
+  lines.reduce<string | null>((latest, line) => !latest || line.date > latest ? line.date : latest, null);
+
+// Spending projects forward at the average daily pace so far, so one big trip
+// early in a week reads as a warning until the days after it catch up.
+export const budgetStatus = (lines: ReceiptLine[], budget: Budget, asOf: string): BudgetStatus => {
+  const { key, from, to } = budgetPeriodOf(asOf, budget.period);
+  const spent = spentBetween(lines, budget.category, from, asOf);
+  const elapsedDays = daysBetween(from, asOf) + 1;
+  const totalDays = daysBetween(from, to) + 1;
+  const projected = spent / elapsedDays * totalDays;
+
+  return {
+    key,
+    from,
+    to,
+    asOf,
+    spent,
+    remaining: budget.amount - spent,
+    projected,
+    overBudget: spent > budget.amount,
+    onPaceToOvershoot: projected > budget.amount
+  };
+};
+
+// Spending per period from the first to the last purchase in the lines,
+// including periods where the category saw nothing.
+export const budgetHistory = (lines: ReceiptLine[], budget: Budget): BudgetPeriodSpend[] => {
+  if (lines.length === 0) return [];
+  const dates = lines.map(line => line.date).sort();
+  const last = dates[dates.length - 1];
+
+  const periods: BudgetPeriodSpend[] = [];
+  for (let period = budgetPeriodOf(dates[0], budget.period); period.from <= last; period = budgetPeriodOf(addDays(period.to, 1), budget.period)) {
+    periods.push({ ...period, spent: spentBetween(lines, budget.category, period.from, period.to) });
+  }
+  return periods;
+};
+
+// The budget measured against every period in the lines, and against the one
+// holding the latest purchase as it stands on that day.
+export const summarizeBudget = (lines: ReceiptLine[], budget: Budget, asOf = latestDate(lines)): BudgetSummary | null => {
+  if (!asOf) return null;
+  const periods = budgetHistory(lines, budget);
+
+  return {
+    ...budget,
+    periods,
+    averageSpent: periods.length === 0 ? 0 : periods.reduce((sum, period) => sum + period.spent, 0) / periods.length,
+    periodsOver: periods.filter(period => period.spent > budget.amount).length,
+    current: budgetStatus(lines, budget, asOf)
+  };
+};
+
+export const summarizeBudgets = (lines: ReceiptLine[], budgets: Budget[]): BudgetSummary[] =>
+  budgets
+    .filter(budget => budget.amount > 0)
+    .map(budget => summarizeBudget(lines, budget))
+    .filter((summary): summary is BudgetSummary => summary !== null);
+
+// Budget left on each day of the current period: what was actually left up to
+// `asOf`, an even spend-down for reference, and the current pace carried on
+// to the end of the period.
+export const burnDown = (lines: ReceiptLine[], budget: Budget, asOf: string): BurnDownPoint[] => {
+  const status = budgetStatus(lines, budget, asOf);
+  const totalDays = daysBetween(status.from, status.to) + 1;
+  const pace = status.spent / (daysBetween(status.from, asOf) + 1);
+
+  const points: BurnDownPoint[] = [];
+  let spent = 0;
+  for (let date = status.from, day = 1; date <= status.to; date = addDays(date, 1), day++) {
+    if (date <= asOf) spent += spentBetween(lines, budget.category, date, date);
+    points.push({
+      date,
+      remaining: date <= asOf ? budget.amount - spent : null,
+      ideal: budget.amount * (1 - day / totalDays),
+      projected: date >= asOf ? budget.amount - status.spent - pace * daysBetween(asOf, date) : null
+    });
+  }
+  return points;
+};
@@ -0,0 +1,210 @@
+import type { Catalog, Product, ProductSuggestion, ReceiptLine } from './types';
+
+// Receipt abbreviations expanded before names are compared, so "PPR BELL GRN"
+// and "Green Bell Pepper" share words.
+const ABBREVIATIONS: Record<string, string> = {
+  KS: 'KIRKLAND',
+  ORG: 'ORGANIC',
+  OG: 'ORGANIC',
+  CAB: 'CABBAGE',
+  PPR: 'PEPPER',
+  GRN: 'GREEN',
+  PNT: 'PEANUT',
+  PNUT: 'PEANUT',
+  BTR: 'BUTTER',
+  BUTR: 'BUTTER',
+  FLR: 'FLOUR',
+  MLK: 'MILK',
+  CHSE: 'CHEESE',
+  CHEES: 'CHEESE',
+  SLC: 'SLICED',
+  SLCD: 'SLICED',
+  TOM: 'TOMATO',
+  TOMATOES: 'TOMATO',
+  LNTLS: 'LENTILS',
+  PSTA: 'PASTA',
+  WNCO: 'WINCO',
+  TORTLA: 'TORTILLA',
+  TORTI: 'TORTILLA',
+  TORTILA: 'TORTILLA',
+  ALM: 'ALMOND',
+  ALMND: 'ALMOND',
+  CRM: 'CREAM',
+  YEL: 'YELLOW',
+  ONIO: 'ONION',
+  ONIONS: 'ONION',
+  QTRS: 'QUARTERS',
+  RST: 'ROASTED',
+  TURKY: 'TURKEY',
+  WG: 'WHOLE GRAIN'
+};
+
+// Store brands and qualifiers that say nothing about which product it is.
+const STOP_WORDS = ['KIRKLAND', 'WINCO', 'KRO', 'STO', 'ORGANIC', 'QTY', '&'];
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const normalizeItemName = (name: string): string =>
+  name.trim().toUpperCase().replace(/\s+/g, ' ');
+
+const product = (name: string, brand: string, category: string, aliases: string[]) => ({
+  product: { id: slugify(name), name, brand, category },
+  aliases
+});
+
+// Starting point for the Freeside data: the abbreviations nobody can read
+// and the products that show up under more than one name.
+const SEED = [
+  product('a2 Milk Yogurt', 'a2 Milk', 'Dairy', ['A2YOGURT']),
+  product('Sliced Cheddar', 'Kirkland Signature', 'Dairy', ['SLC CHEDDAR']),
+  product('Paper Towels', 'Kirkland Signature', 'Household', ['KS TOWEL']),
+  product("21 Whole Grains Bread", "Dave's Killer Bread", 'Bakery', ["DAVE'S 21 WG"]),
+  product("Thin-Sliced 21 Whole Grains Bread", "Dave's Killer Bread", 'Bakery', ["DAVE'S THIN"]),
+  product('Napa Cabbage', '', 'Produce', ['CAB NAPPA']),
+  product('Green Cabbage', '', 'Produce', ['CAB GREEN']),
+  product('Bananas', '', 'Produce', ['BANANAS', 'DOLE BANANAS']),
+  product('Cucumbers', '', 'Produce', ['CUCUMBER', 'CUCUMBERS']),
+  product('Green Bell Pepper', '', 'Produce', ['PPR BELL GRN']),
+  product('Red Bell Pepper', '', 'Produce', ['PPR BELL RED']),
+  product('Lemons', '', 'Produce', ['LEMONS', 'LEMON SMALL', 'LEMON FANCY']),
+  product('Red Grapefruit', '', 'Produce', ['GRAPEFRUIT', 'KRO GRAPEFRUIT RED']),
+  product('Tomatoes', '', 'Produce', ['TOMATO QTY', 'TOMATOES QTY']),
+  product('Pinto Beans', '', 'Pantry', ['PINTO BEANS', 'BEANS PINTO']),
+  product('Navy Beans', '', 'Pantry', ['NAVY BEANS', 'BEANS NAVY']),
+  product('Corn Tortillas', 'Guerrero', 'Pantry', ['GUERRERO TORTILLA', 'GUERRERO TORTLA']),
+  product('All-Purpose Flour', 'WinCo', 'Pantry', ['WINCO FLOUR', 'WINCO FLR', 'FLR WINCO 25#']),
+  product('Whole Milk', 'WinCo', 'Dairy', ['WINCO MLK ORWHWG', 'WNCO MLK ORWHWG']),
+  product('Pasture-Raised Eggs', 'Hickman', 'Eggs', ['HICKMAN EGGS']),
+  product('Pasture-Raised Eggs, 5 Dozen', 'Hickman', 'Eggs', ['HICKMAN EGGS 5']),
+  product('Tillamook Sliced Cheese', 'Tillamook', 'Dairy', ['TILL SLC CHEESE', 'TILLAMOOK CHEES']),
+  product('Cage-Free Eggs', 'Kirkland Signature', 'Eggs', ['KS CAGE FREE'])
+];
+
+export const DEFAULT_CATALOG: Catalog = {
+  products: SEED.map(entry => entry.product),
+  aliases: Object.fromEntries(SEED.flatMap(entry => entry.aliases.map(alias => [alias, entry.product.id])))
+};
+
+export const findProduct = (catalog: Catalog, item: string): Product | null => {
+  const id = catalog.aliases[normalizeItemName(item)];
+  return catalog.products.find(entry => entry.id === id) ?? null;
+};
+
+// Renames every line to its canonical product, keeping what the receipt said
+// in `rawItem`. The product's category only fills in lines that have none.
+export const canonicalize = <T extends ReceiptLine>(lines: T[], catalog: Catalog): T[] =>
+  lines.map(line => {
+    const match = findProduct(catalog, line.rawItem ?? line.item);
+    if (!match) return line;
+    return {
+      ...line,
+      item: match.name,
+      rawItem: line.rawItem ?? line.item,
+      category: line.category || match.category
+    };
+  });
+
+export const unmappedItems = (lines: ReceiptLine[], catalog: Catalog): string[] => {
+  const names = new Set<string>();
+  lines.forEach(line => {
+    const raw = normalizeItemName(line.rawItem ?? line.item);
+    if (!catalog.aliases[raw]) names.add(raw);
+  });
+  return [...names].sort();
+};
+
+// The words of a name with abbreviations spelled out and plurals and brand
+// names dropped, as used for comparing names.
+export const nameTokens = (name: string): string[] =>
+  normalizeItemName(name)
+    .replace(/[^A-Z0-9& ]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+    .flatMap(token => (ABBREVIATIONS[token] ?? token).split(' '))
+    .filter(token => !STOP_WORDS.includes(token))
+    .map(token => token.replace(/S$/, ''));
+
+const bigrams = (value: string): string[] => {
+  const text = value.replace(/\s+/g, '');
+  return Array.from({ length: Math.max(0, text.length - 1) }, (_, index) => text.slice(index, index + 2));
+};
+
+// Blends word overlap with character-pair overlap so both reordered words
+// ("BEANS PINTO") and squashed abbreviations ("ORGKALAMATA") score well.
+export const nameSimilarity = (a: string, b: string): number => {
+  const aTokens = nameTokens(a);
+  const bTokens = nameTokens(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const shared = aTokens.filter(token => bTokens.includes(token)).length;
+  const wordScore = shared / Math.max(aTokens.length, bTokens.length);
+
+  const aPairs = bigrams(aTokens.join(' '));
+  const bPairs = bigrams(bTokens.join(' '));
+  const unmatched = [...bPairs];
+  let matches = 0;
+  aPairs.forEach(pair => {
+    const index = unmatched.indexOf(pair);
+    if (index !== -1) {
+      matches++;
+      unmatched.splice(index, 1);
+    }
+  });
+  const pairCount = aPairs.length + bPairs.length;
+  const pairScore = pairCount === 0 ? 0 : 2 * matches / pairCount;
+
+  return Math.max(wordScore, pairScore);
+};
+
+const SUGGESTION_THRESHOLD = 0.5;
+
+// Likely products for an unmapped name, comparing it with each product's
+// display name and with every name already mapped to it.
+export const suggestProducts = (catalog: Catalog, item: string, limit = 3): ProductSuggestion[] => {
+  const aliasesByProduct: Record<string, string[]> = {};
+  Object.entries(catalog.aliases).forEach(([alias, id]) => {
+    if (!aliasesByProduct[id]) aliasesByProduct[id] = [];
+    aliasesByProduct[id].push(alias);
+  });
+
+  return catalog.products
+    .map(entry => ({
+      product: entry,
+      score: Math.max(...[entry.name, ...(aliasesByProduct[entry.id] ?? [])].map(name => nameSimilarity(item, name)))
+    }))
+    .filter(suggestion => suggestion.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+export const assignAlias = (catalog: Catalog, item: string, productId: string): Catalog => ({
+  ...catalog,
+  aliases: { ...catalog.aliases, [normalizeItemName(item)]: productId }
+});
+
+export const removeAlias = (catalog: Catalog, item: string): Catalog => {
+  const aliases = { ...catalog.aliases };
+  delete aliases[normalizeItemName(item)];
+  return { ...catalog, aliases };
+};
+
+export const addProduct = (catalog: Catalog, fields: Omit<Product, 'id'>, aliases: string[] = []): Catalog => {
+  let id = slugify(fields.name) || 'product';
+  for (let suffix = 2; catalog.products.some(entry => entry.id === id); suffix++) {
+    id = `${slugify(fields.name)}-${suffix}`;
+  }
+
+  const next = { ...catalog, products: [...catalog.products, { id, ...fields }] };
+  return aliases.reduce((updated, alias) => assignAlias(updated, alias, id), next);
+};
+
+export const updateProduct = (catalog: Catalog, id: string, fields: Partial<Omit<Product, 'id'>>): Catalog => ({
+  ...catalog,
+  products: catalog.products.map(entry => entry.id === id ? { ...entry, ...fields } : entry)
+});
+
+export const removeProduct = (catalog: Catalog, id: string): Catalog => ({
+  products: catalog.products.filter(entry => entry.id !== id),
+  aliases: Object.fromEntries(Object.entries(catalog.aliases).filter(([, productId]) => productId !== id))
+});
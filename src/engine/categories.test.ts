@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORY_RULES, matchRule } from './categories';
+
+const ruled = (item: string) => matchRule(DEFAULT_CATEGORY_RULES, item)?.category;
+
+describe('DEFAULT_CATEGORY_RULES', () => {
+  it('files peanut butter and coconut milk under Pantry, abbreviated or not', () => {
+    expect(ruled('PEANUT BUTTER')).toBe('Pantry');
+    expect(ruled('ADAMS PNT BTR')).toBe('Pantry');
+    expect(ruled('COCONUT MILK')).toBe('Pantry');
+    expect(ruled('THAI COCONUT MLK')).toBe('Pantry');
+  });
+
+  it('still files milk and butter under Dairy', () => {
+    expect(ruled('WINCO MLK ORWHWG')).toBe('Dairy');
+    expect(ruled('KS BUTTER')).toBe('Dairy');
+    expect(ruled('OAT MILK')).toBe('Dairy');
+  });
+});
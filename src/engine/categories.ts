@@ -0,0 +1,173 @@
+import { findProduct, nameTokens, normalizeItemName } from './catalog';
+import { isGenericDiscount } from './discounts';
+import { tripKey } from './keys';
+import { isOverhead } from './overhead';
+import type { Catalog, CategoryGuess, CategoryRule, CategorySettings, CategoryUse, Miscategorization, ReceiptLine } from './types';
+
+// Where lines go when nothing knows better, as entered by hand so far.
+export const UNCATEGORIZED = 'Other';
+
+const rule = (keyword: string, category: string): CategoryRule => ({ keyword, category });
+
+// Starting rules for the categories the Freeside data uses. Canned and frozen
+// produce is filed under Pantry, so produce rules stick to fresh names. The
+// first rule that matches wins, so shelf-stable spreads and milks come before
+// the Dairy keywords they contain.
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  rule('PEANUT BUTTER', 'Pantry'),
+  rule('ALMOND BUTTER', 'Pantry'),
+  rule('COCONUT MILK', 'Pantry'),
+  rule('SILK ALMOND', 'Dairy'),
+  rule('ALMOND MILK', 'Dairy'),
+  rule('OAT MILK', 'Dairy'),
+  rule('MILK', 'Dairy'),
+  rule('YOGURT', 'Dairy'),
+  rule('CHEESE', 'Dairy'),
+  rule('CHEDDAR', 'Dairy'),
+  rule('BUTTER', 'Dairy'),
+  rule('EGG', 'Eggs'),
+  rule('DAVE', 'Bakery'),
+  rule('BREAD', 'Bakery'),
+  rule('BAGEL', 'Bakery'),
+  rule('MUFFIN', 'Bakery'),
+  rule('CHICKEN', 'Meat'),
+  rule('BEEF', 'Meat'),
+  rule('TURKEY', 'Meat'),
+  rule('PORK', 'Meat'),
+  rule('SALMON', 'Meat'),
+  rule('BACON', 'Meat'),
+  rule('LAGER', 'Alcohol'),
+  rule('BEER', 'Alcohol'),
+  rule('WINE', 'Alcohol'),
+  rule('TOWEL', 'Household'),
+  rule('TISSUE', 'Household'),
+  rule('DETERGENT', 'Household'),
+  rule('SOAP', 'Household'),
+  rule('CABBAGE', 'Produce'),
+  rule('BANANA', 'Produce'),
+  rule('ROMAINE', 'Produce'),
+  rule('SPINACH', 'Produce'),
+  rule('KALE', 'Produce'),
+  rule('LEMON', 'Produce'),
+  rule('LIME', 'Produce'),
+  rule('AVOCADO', 'Produce'),
+  rule('CELERY', 'Produce'),
+  rule('CILANTRO', 'Produce'),
+  rule('GARLIC', 'Produce'),
+  rule('BROCCOLI', 'Produce'),
+  rule('ASPARAGU', 'Produce'),
+  rule('CUCUMBER', 'Produce'),
+  rule('BEAN', 'Pantry'),
+  rule('RICE', 'Pantry'),
+  rule('FLOUR', 'Pantry'),
+  rule('PASTA', 'Pantry'),
+  rule('SPAGHTTI', 'Pantry')
+];
+
+export const DEFAULT_CATEGORY_SETTINGS: CategorySettings = { rules: DEFAULT_CATEGORY_RULES, assignments: {} };
+
+// Everything a guess is made from: explicit fixes, the product catalog, what
+// each item was filed under before, and the keyword rules, in that order.
+export interface Categorizer {
+  settings: CategorySettings;
+  catalog?: Catalog;
+  history: Record<string, string>; // normalized raw item name -> usual category
+}
+
+const rawName = (line: ReceiptLine) => normalizeItemName(line.rawItem ?? line.item);
+
+// Most lines first; on a tie a real category beats the catch-all.
+const byUse = (a: CategoryUse, b: CategoryUse) =>
+  b.lines - a.lines || Number(a.category === UNCATEGORIZED) - Number(b.category === UNCATEGORIZED) || a.category.localeCompare(b.category);
+
+const categoryUses = (lines: ReceiptLine[]) => {
+  const items: Record<string, Record<string, { lines: number; trips: Set<string> }>> = {};
+  lines.forEach(line => {
+    if (!line.category) return;
+    const item = rawName(line);
+    if (!items[item]) items[item] = {};
+    if (!items[item][line.category]) items[item][line.category] = { lines: 0, trips: new Set() };
+    items[item][line.category].lines++;
+    items[item][line.category].trips.add(tripKey(line));
+  });
+
+  return Object.entries(items).map(([item, categories]) => ({
+    item,
+    uses: Object.entries(categories)
+      .map(([category, use]): CategoryUse => ({ category, lines: use.lines, trips: use.trips.size }))
+      .sort(byUse)
+  }));
+};
+
+export const buildCategorizer = (lines: ReceiptLine[], settings: CategorySettings, catalog?: Catalog): Categorizer => ({
+  settings,
+  catalog,
+  history: Object.fromEntries(categoryUses(lines).map(({ item, uses }) => [item, uses[0].category]))
+});
+
+export const matchRule = (rules: CategoryRule[], item: string): CategoryRule | null => {
+  const tokens = nameTokens(item);
+  return rules.find(entry => {
+    const keywords = nameTokens(entry.keyword);
+    return keywords.length > 0 && keywords.every(keyword => tokens.includes(keyword));
+  }) ?? null;
+};
+
+export const guessCategory = (categorizer: Categorizer, item: string): CategoryGuess | null => {
+  const name = normalizeItemName(item);
+  const assigned = categorizer.settings.assignments[name];
+  if (assigned) return { category: assigned, source: 'assigned' };
+
+  const product = categorizer.catalog && findProduct(categorizer.catalog, name);
+  if (product?.category) return { category: product.category, source: 'catalog' };
+
+  // Having only ever been filed under the catch-all is a weaker hint than a rule.
+  const usual = categorizer.history[name];
+  if (usual && usual !== UNCATEGORIZED) return { category: usual, source: 'history' };
+
+  const matched = matchRule(categorizer.settings.rules, name);
+  if (matched) return { category: matched.category, source: 'rule' };
+  return usual ? { category: usual, source: 'history' } : null;
+};
+
+// Applies the assigned fixes and fills in lines imported without a category.
+export const categorizeLines = <T extends ReceiptLine>(lines: T[], categorizer: Categorizer): T[] =>
+  lines.map(line => {
+    const assigned = categorizer.settings.assignments[rawName(line)];
+    if (assigned) return assigned === line.category ? line : { ...line, category: assigned };
+    if (line.category) return line;
+    return { ...line, category: guessCategory(categorizer, rawName(line))?.category ?? UNCATEGORIZED };
+  });
+
+// Items that are probably filed wrong. Tax, deposits and bare discounts live
+// under "Other" on purpose, and assigned items were settled by hand, so
+// neither is listed.
+export const findMiscategorized = (lines: ReceiptLine[], settings: CategorySettings): Miscategorization[] => {
+  const purchases = lines.filter(line => !isOverhead(line) && !isGenericDiscount(line));
+
+  return categoryUses(purchases)
+    .filter(({ item }) => !settings.assignments[item])
+    .flatMap(({ item, uses }): Miscategorization[] => {
+      const ruled = matchRule(settings.rules, item)?.category;
+      if (uses.length > 1) {
+        const suggested = ruled && uses.some(use => use.category === ruled) ? ruled : uses[0].category;
+        return [{ item, reason: 'inconsistent', uses, suggested }];
+      }
+      if (uses[0].category === UNCATEGORIZED && ruled && ruled !== UNCATEGORIZED) {
+        return [{ item, reason: 'rule', uses, suggested: ruled }];
+      }
+      return [];
+    })
+    .sort((a, b) => a.item.localeCompare(b.item));
+};
+
+export const assignCategory = (settings: CategorySettings, item: string, category: string): CategorySettings => ({
+  ...settings,
+  assignments: { ...settings.assignments, [normalizeItemName(item)]: category }
+});
+
+export const unassignCategory = (settings: CategorySettings, item: string): CategorySettings => {
+  const assignments = { ...settings.assignments };
+  delete assignments[normalizeItemName(item)];
+  return { ...settings, assignments };
+};
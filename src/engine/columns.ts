@@ -0,0 +1,156 @@
+import type { ReceiptLine } from './types';
+
+export type ReceiptField = Exclude<keyof ReceiptLine, 'rawItem' | 'lineNumber' | 'id' | 'tags'>;
+
+// Field order of the hand-transcribed CSV, which has no header row.
+export const RECEIPT_FIELDS: ReceiptField[] = ['date', 'store', 'category', 'item', 'quantity', 'unit', 'price', 'total'];
+
+export const REQUIRED_FIELDS: ReceiptField[] = ['date', 'item', 'total'];
+
+export const FIELD_LABELS: Record<ReceiptField, string> = {
+  date: 'Date',
+  store: 'Store',
+  category: 'Category',
+  item: 'Item',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  price: 'Price',
+  total: 'Total'
+};
+
+// Lowercased, punctuation-free header names that map onto each field.
+const FIELD_SYNONYMS: Record<ReceiptField, string[]> = {
+  date: ['date', 'purchase date', 'purchased', 'trip date', 'transaction date', 'day'],
+  store: ['store', 'shop', 'merchant', 'vendor', 'retailer', 'location'],
+  category: ['category', 'cat', 'department', 'dept', 'section', 'type'],
+  item: ['item', 'item name', 'product', 'description', 'name', 'article'],
+  quantity: ['quantity', 'qty', 'count', 'amount', 'weight'],
+  unit: ['unit', 'units', 'uom', 'unit of measure'],
+  price: ['price', 'unit price', 'price each', 'each', 'rate'],
+  total: ['total', 'line total', 'extended', 'extended price', 'cost', 'subtotal', 'paid']
+};
+
+export interface ColumnMapping {
+  hasHeader: boolean;
+  // Field assigned to each source column, or null to skip that column.
+  fields: (ReceiptField | null)[];
+}
+
+export interface SavedMapping {
+  source: string;
+  columns: string[];
+  mapping: ColumnMapping;
+}
+
+export const DEFAULT_MAPPING: ColumnMapping = { hasHeader: false, fields: RECEIPT_FIELDS };
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const matchField = (header: string): ReceiptField | null => {
+  const name = normalizeHeader(header);
+  if (!name) return null;
+  const match = RECEIPT_FIELDS.find(field => FIELD_SYNONYMS[field].includes(name));
+  return match ?? null;
+};
+
+const looksLikeValue = (cell: string): boolean =>
+  /^-?\$?\d+(\.\d+)?$/.test(cell.trim()) || /^\d{4}-\d{2}-\d{2}/.test(cell.trim());
+
+// A first row counts as a header when at least two cells are known column
+// names and none of them look like a date or an amount.
+export const detectHeaderRow = (row: string[]): boolean => {
+  if (row.some(looksLikeValue)) return false;
+  return row.filter(cell => matchField(cell) !== null).length >= 2;
+};
+
+export const columnNames = (rows: string[][], hasHeader: boolean): string[] => {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  return Array.from({ length: width }, (_, index) =>
+    hasHeader && rows[0][index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`
+  );
+};
+
+export const guessMapping = (rows: string[][]): ColumnMapping => {
+  // Without a header the columns are taken in the usual order. A stray long
+  // row (a trailing comma, an unquoted comma in a name) only adds columns
+  // that are left unmapped.
+  if (rows.length === 0 || !detectHeaderRow(rows[0])) {
+    const width = Math.max(0, ...rows.map(row => row.length));
+    return {
+      hasHeader: false,
+      fields: Array.from({ length: width }, (_, index) => index < RECEIPT_FIELDS.length ? RECEIPT_FIELDS[index] : null)
+    };
+  }
+
+  const used = new Set<ReceiptField>();
+  const fields = rows[0].map(cell => {
+    const field = matchField(cell);
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+  return { hasHeader: true, fields };
+};
+
+// Carries a saved mapping over to a new file: header files are matched by
+// column name so reordered exports still line up, others by position.
+export const reuseMapping = (saved: SavedMapping, rows: string[][]): ColumnMapping | null => {
+  const hasHeader = rows.length > 0 && detectHeaderRow(rows[0]);
+  if (hasHeader !== saved.mapping.hasHeader) return null;
+
+  const columns = columnNames(rows, hasHeader);
+  if (!hasHeader) {
+    if (columns.length !== saved.columns.length) return null;
+    return saved.mapping;
+  }
+
+  const fields = columns.map(column => {
+    const index = saved.columns.findIndex(name => normalizeHeader(name) === normalizeHeader(column));
+    return index === -1 ? null : saved.mapping.fields[index] ?? null;
+  });
+  return { hasHeader, fields };
+};
+
+// Names a source after its file, dropping dates and copy counters so weekly
+// exports such as "costco-2025-03-08.csv" share one saved mapping.
+export const sourceNameFromFile = (fileName: string): string => {
+  const name = fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/\d{4}[-_]?\d{2}[-_]?\d{2}/g, '')
+    .replace(/\(\d+\)/g, '')
+    .replace(/[-_\s]+/g, ' ')
+    .trim();
+  return name || fileName;
+};
+
+export const mappingProblems = (mapping: ColumnMapping): string[] => {
+  const problems: string[] = [];
+  REQUIRED_FIELDS.forEach(field => {
+    if (!mapping.fields.includes(field)) {
+      problems.push(`No column is assigned to ${FIELD_LABELS[field]}.`);
+    }
+  });
+  RECEIPT_FIELDS.forEach(field => {
+    if (mapping.fields.filter(assigned => assigned === field).length > 1) {
+      problems.push(`${FIELD_LABELS[field]} is assigned to more than one column.`);
+    }
+  });
+  return problems;
+};
+
+// Prefers the mapping saved under this source's name, then any saved mapping
+// for a header file with exactly the same columns.
+export const findSavedMapping = (
+  saved: SavedMapping[],
+  source: string,
+  rows: string[][]
+): SavedMapping | null => {
+  const bySource = saved.find(entry => entry.source === source && reuseMapping(entry, rows));
+  if (bySource) return bySource;
+
+  const columns = columnNames(rows, true).map(normalizeHeader).join('|');
+  return saved.find(entry =>
+    entry.mapping.hasHeader && entry.columns.map(normalizeHeader).join('|') === columns
+  ) ?? null;
+};
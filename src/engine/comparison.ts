@@ -0,0 +1,111 @@
+import type {
+  Analysis,
+  ItemPriceDelta,
+  MetricDelta,
+  ReceiptLine,
+  SeasonComparison,
+  ShareDelta,
+  TripSpendDelta
+} from './types';
+import { shelfPriceLines } from './items';
+import { tripKey } from './keys';
+import { median } from './summaries';
+import { averageUnitPrice, dominantUnit } from './units';
+
+const changeFrom = (before: number, after: number): number | null =>
+  before === 0 ? null : after / before - 1;
+
+const tripTotals = (lines: ReceiptLine[]): number[] => {
+  const totals: Record<string, number> = {};
+  lines.forEach(line => {
+    const key = tripKey(line);
+    totals[key] = (totals[key] ?? 0) + line.total;
+  });
+  return Object.values(totals);
+};
+
+const compareMetrics = (before: Analysis, after: Analysis): MetricDelta[] => {
+  const metric = (label: string, kind: MetricDelta['kind'], valueOf: (analysis: Analysis) => number): MetricDelta => ({
+    label,
+    kind,
+    before: valueOf(before),
+    after: valueOf(after),
+    change: changeFrom(valueOf(before), valueOf(after))
+  });
+
+  const metrics = [
+    metric('Total Spent', 'currency', analysis => analysis.stats.totalSpent),
+    metric('Shopping Trips', 'count', analysis => analysis.stats.totalTrips),
+    metric('Avg. per Trip', 'currency', analysis => analysis.stats.avgPerTrip),
+    metric('Median Trip', 'currency', analysis => median(tripTotals(analysis.lines))),
+    metric('Total Items', 'count', analysis => analysis.stats.totalItems),
+    metric('Discounts', 'currency', analysis => analysis.stats.totalSavings)
+  ];
+  if (before.perPerson && after.perPerson) {
+    metrics.push(metric('Per Person-Day', 'currency', analysis => analysis.perPerson?.costPerPersonDay ?? 0));
+  }
+  return metrics;
+};
+
+const compareCategories = (before: Analysis, after: Analysis): ShareDelta[] => {
+  const names = [...new Set([...before.categories, ...after.categories].map(share => share.name))];
+  return names
+    .map(name => {
+      const was = before.categories.find(share => share.name === name) ?? null;
+      const is = after.categories.find(share => share.name === name) ?? null;
+      return { name, before: was, after: is, shareChange: (is?.percentage ?? 0) - (was?.percentage ?? 0) };
+    })
+    .sort((a, b) => (b.after?.value ?? 0) - (a.after?.value ?? 0) || (b.before?.value ?? 0) - (a.before?.value ?? 0));
+};
+
+const averageTripAt = (lines: ReceiptLine[], store: string): number | null => {
+  const totals = tripTotals(lines.filter(line => line.store === store));
+  return totals.length === 0 ? null : totals.reduce((sum, total) => sum + total, 0) / totals.length;
+};
+
+const compareTripSpend = (before: Analysis, after: Analysis): TripSpendDelta[] => {
+  const stores = [...new Set([...before.lines, ...after.lines].map(line => line.store))].sort();
+  return stores.map(store => {
+    const was = averageTripAt(before.lines, store);
+    const is = averageTripAt(after.lines, store);
+    return { store, before: was, after: is, change: was !== null && is !== null ? changeFrom(was, is) : null };
+  });
+};
+
+const groupByItem = (lines: ReceiptLine[]): Record<string, ReceiptLine[]> => {
+  const byItem: Record<string, ReceiptLine[]> = {};
+  lines.forEach(line => {
+    if (!byItem[line.item]) byItem[line.item] = [];
+    byItem[line.item].push(line);
+  });
+  return byItem;
+};
+
+// Shelf prices per pound or per item, in the unit the item was mostly bought
+// in the earlier season, for items bought in both.
+const compareItemPrices = (before: Analysis, after: Analysis): ItemPriceDelta[] => {
+  const beforeItems = groupByItem(shelfPriceLines(before.lines));
+  const afterItems = groupByItem(shelfPriceLines(after.lines));
+
+  return Object.entries(beforeItems)
+    .map(([item, beforeLines]) => {
+      const afterLines = afterItems[item];
+      const unit = dominantUnit(beforeLines);
+      if (!afterLines || !unit) return null;
+      const was = averageUnitPrice(beforeLines, unit);
+      const is = averageUnitPrice(afterLines, unit);
+      if (!was || !is) return null;
+      return { item, category: afterLines[0].category, unit, before: was.price, after: is.price, change: is.price / was.price - 1 };
+    })
+    .filter((delta): delta is ItemPriceDelta => delta !== null)
+    .sort((a, b) => b.change - a.change);
+};
+
+// Two seasons analyzed with the same options, `after` measured against
+// `before`.
+export const compareSeasons = (before: Analysis, after: Analysis): SeasonComparison => ({
+  metrics: compareMetrics(before, after),
+  categories: compareCategories(before, after),
+  tripSpend: compareTripSpend(before, after),
+  items: compareItemPrices(before, after)
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { RECEIPT_FIELDS } from './columns';
+import { importCsv, readCsvRecords, reimportCsv, replaceLines } from './csv';
+
+const WITH_NOTES = [
+  'Date,Store,Category,Item,Quantity,Unit,Price,Total,Notes',
+  '2025-02-15,Costco,Dairy,A2YOGURT,1,each,8.99,8.99,',
+  '2025-02-15,Costco,Bakery,DAVE\'S THIN,1,each,9.49,9.49,"for the house',
+  'and for the party"',
+  '',
+  '2025-02-15,Costco,Produce,BANANAS,1,each,1.49,1.49,ripe'
+].join('\r\n');
+
+describe('readCsvRecords', () => {
+  it('keeps a quoted field over several lines in one record, numbered by its first line', () => {
+    const records = readCsvRecords(WITH_NOTES);
+    expect(records.map(record => record.lineNumber)).toEqual([1, 2, 3, 6]);
+    expect(records[2].cells[8]).toBe('for the house\nand for the party');
+    expect(records[2].raw).toBe('2025-02-15,Costco,Bakery,DAVE\'S THIN,1,each,9.49,9.49,"for the house\nand for the party"');
+    expect(records.every(record => !record.malformed)).toBe(true);
+  });
+
+  it('reads an unclosed quote one line at a time instead of swallowing the rest of the file', () => {
+    const records = readCsvRecords('2025-02-15,Costco,Dairy,"A2YOGURT,1,each,8.99,8.99\n2025-02-15,Costco,Produce,BANANAS,1,each,1.49,1.49');
+    expect(records.map(record => [record.lineNumber, record.malformed])).toEqual([[1, true], [2, false]]);
+    expect(records[1].cells[3]).toBe('BANANAS');
+  });
+});
+
+describe('importCsv', () => {
+  it('imports rows with multi-line notes instead of rejecting them as short rows', () => {
+    const result = importCsv(WITH_NOTES, { hasHeader: true, fields: [...RECEIPT_FIELDS, null] });
+    expect(result.issues).toEqual([]);
+    expect(result.lines.map(line => line.item)).toEqual(['A2YOGURT', 'DAVE\'S THIN', 'BANANAS']);
+  });
+});
+
+describe('replaceLines', () => {
+  it('replaces a multi-line record as a whole, keeping the numbers of the lines after it', () => {
+    const fixed = replaceLines(WITH_NOTES, { 3: '2025-02-15,Costco,Bakery,DAVE\'S THIN,1,each,9.49,9.49,' });
+    const records = readCsvRecords(fixed);
+    expect(records.map(record => record.lineNumber)).toEqual([1, 2, 3, 6]);
+    expect(records[2].cells[8]).toBe('');
+  });
+
+  it('lets a fix from the import report turn a rejected row into a line', () => {
+    const result = importCsv('2025-02-15,Costco,Dairy,A2YOGURT,1,each\n2025-02-15,Costco,Produce,BANANAS,1,each,1.49,1.49');
+    expect(result.lines).toHaveLength(1);
+    const fixed = reimportCsv(result, { 1: '2025-02-15,Costco,Dairy,A2YOGURT,1,each,8.99,8.99' });
+    expect(fixed.lines.map(line => [line.item, line.lineNumber])).toEqual([['A2YOGURT', 1], ['BANANAS', 2]]);
+  });
+});
@@ -0,0 +1,99 @@
+import Papa from 'papaparse';
+import { DEFAULT_MAPPING } from './columns';
+import type { ColumnMapping } from './columns';
+import type { ReceiptLine } from './types';
+import { validateRecord } from './validation';
+import type { CsvRecord, ImportIssue } from './validation';
+
+export interface ImportResult {
+  lines: ReceiptLine[];
+  issues: ImportIssue[];
+  csvData: string;
+  mapping: ColumnMapping;
+}
+
+const isQuoteError = (error: Papa.ParseError) => error.type === 'Quotes';
+
+const readLine = (raw: string, lineNumber: number): CsvRecord => {
+  const parsed = Papa.parse<string[]>(raw, { delimiter: ',', header: false });
+  return { lineNumber, raw, cells: parsed.data[0] ?? [], malformed: parsed.errors.some(isQuoteError) };
+};
+
+// Parses the whole file at once, so a quoted field such as a note can run
+// over several lines, while every record keeps the line it starts on and its
+// raw text for the import report. Papa's cursor sometimes stops before a
+// row's line break and sometimes after it, so blank lines in front of a
+// record are skipped here rather than trusted to the cursor. A quote that is
+// never closed would swallow the rest of the file, so such a record is read
+// again one line at a time.
+export const readCsvRecords = (csvData: string): CsvRecord[] => {
+  const text = csvData.replace(/\r\n/g, '\n');
+  const records: CsvRecord[] = [];
+  let start = 0;
+  let counted = 0;
+  let line = 1;
+  // Line of a position in the text; positions only ever move forward.
+  const lineAt = (position: number) => {
+    for (; counted < position; counted++) if (text[counted] === '\n') line++;
+    return line;
+  };
+
+  Papa.parse<string[]>(text, {
+    delimiter: ',',
+    newline: '\n',
+    header: false,
+    skipEmptyLines: true,
+    step: ({ data, errors, meta }) => {
+      const blank = text.slice(start, meta.cursor).match(/^(?:[ \t]*\n)*/)?.[0] ?? '';
+      const lineNumber = lineAt(start + blank.length);
+      const raw = text.slice(start + blank.length, meta.cursor).replace(/\n$/, '');
+      const lines = raw.split('\n');
+      start = meta.cursor;
+
+      if (lines.length > 1 && errors.some(isQuoteError)) {
+        lines.forEach((line, index) => {
+          if (line.trim() !== '') records.push(readLine(line, lineNumber + index));
+        });
+      } else if (raw.trim() !== '') {
+        records.push({ lineNumber, raw, cells: data, malformed: errors.some(isQuoteError) });
+      }
+    }
+  });
+  return records;
+};
+
+export const readCsvRows = (csvData: string): string[][] =>
+  readCsvRecords(csvData).map(record => record.cells);
+
+export const importCsv = (csvData: string, mapping: ColumnMapping = DEFAULT_MAPPING): ImportResult => {
+  const lines: ReceiptLine[] = [];
+  const issues: ImportIssue[] = [];
+
+  readCsvRecords(csvData).slice(mapping.hasHeader ? 1 : 0).forEach(record => {
+    const checked = validateRecord(record, mapping);
+    if (checked.line) lines.push(checked.line);
+    issues.push(...checked.issues);
+  });
+
+  return { lines, issues, csvData, mapping };
+};
+
+export const parseReceiptCsv = (csvData: string, mapping: ColumnMapping = DEFAULT_MAPPING): ReceiptLine[] =>
+  importCsv(csvData, mapping).lines;
+
+// Swaps corrected text into the given records, keyed by the line each one
+// starts on. A record spanning several lines is replaced as a whole, and the
+// lines it ran over are left blank so every later record keeps its number.
+export const replaceLines = (csvData: string, fixes: Record<number, string>): string => {
+  const lines = csvData.split(/\r?\n/);
+  readCsvRecords(csvData).forEach(record => {
+    const fix = fixes[record.lineNumber];
+    if (fix === undefined) return;
+    const span = record.raw.split('\n').length;
+    lines.splice(record.lineNumber - 1, span, fix, ...Array<string>(span - 1).fill(''));
+  });
+  return lines.join('\n');
+};
+
+export const reimportCsv = (result: ImportResult, fixes: Record<number, string>): ImportResult =>
+  importCsv(replaceLines(result.csvData, fixes), result.mapping);
@@ -0,0 +1,17 @@
+import type { Dataset, DatasetExclusion, ReceiptLine } from './types';
+
+const excludes = (exclusion: DatasetExclusion) => {
+  const pattern = new RegExp(exclusion.pattern, 'i');
+  return (line: ReceiptLine) => pattern.test(line[exclusion.field]);
+};
+
+// The lines that belong to a dataset: inside its date range and not dropped
+// by any of its exclusions.
+export const scopeToDataset = <T extends ReceiptLine>(lines: T[], dataset: Dataset): T[] => {
+  const exclusions = (dataset.exclusions ?? []).map(excludes);
+  return lines.filter(line =>
+    (!dataset.from || line.date >= dataset.from) &&
+    (!dataset.to || line.date <= dataset.to) &&
+    !exclusions.some(matches => matches(line))
+  );
+};
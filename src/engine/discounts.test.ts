@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileDiscounts, totalSavings } from './discounts';
+import type { ReceiptLine } from './types';
+
+const line = (item: string, quantity: number, price: number, total: number): ReceiptLine =>
+  ({ date: '2025-02-15', store: 'Costco', category: 'Eggs', item, quantity, unit: 'each', price, total });
+
+describe('reconcileDiscounts', () => {
+  it('folds a discount into the purchase above it', () => {
+    const [bread] = reconcileDiscounts([line("DAVE'S THIN", 1, 9.49, 9.49), line("DAVE'S THIN", 1, -2.5, -2.5)]);
+    expect(bread.total).toBeCloseTo(6.99);
+    expect(bread.gross).toBeCloseTo(9.49);
+    expect(bread.discount).toBeCloseTo(-2.5);
+    expect(bread.voided).toBe(0);
+  });
+
+  it('counts whole units taken back off as a void, not a saving', () => {
+    const lines = reconcileDiscounts([line('KS EGGS', 3, 7.69, 23.07), line('KS EGGS', 1, -15.38, -15.38)]);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].voided).toBeCloseTo(-15.38);
+    expect(lines[0].discount).toBe(0);
+    expect(totalSavings(lines)).toBeCloseTo(0);
+  });
+
+  it('counts a coupon that happens to divide the total evenly as a saving', () => {
+    const lines = reconcileDiscounts([line('KS EGGS', 1, 8, 8), line('KS EGGS', 1, -2, -2)]);
+    expect(lines[0].voided).toBe(0);
+    expect(lines[0].discount).toBeCloseTo(-2);
+    expect(totalSavings(lines)).toBeCloseTo(2);
+
+    const [cases] = reconcileDiscounts([line('KS EGGS', 2, 8, 16), line('KS EGGS', 1, -4, -4)]);
+    expect(cases.voided).toBe(0);
+    expect(cases.discount).toBeCloseTo(-4);
+  });
+
+  it('leaves a negative line with nothing to attach to as it is', () => {
+    expect(reconcileDiscounts([line('RETURN', 1, -5, -5)]).map(entry => entry.total)).toEqual([-5]);
+  });
+});
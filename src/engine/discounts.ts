@@ -0,0 +1,129 @@
+import { isOverhead } from './overhead';
+import { tripKey } from './keys';
+import type { ReceiptLine, ReconciledLine, Savings, TripSavings } from './types';
+
+// Receipt lines that discount whatever was rung up just before them.
+const GENERIC_DISCOUNT = /^(DISCOUNT|COUPON|INSTANT SAVINGS|SAVINGS|MFR COUPON|STORE COUPON)$/i;
+
+export const isDiscountLine = (line: ReceiptLine): boolean => line.total < 0;
+
+export const isGenericDiscount = (line: ReceiptLine): boolean => GENERIC_DISCOUNT.test(line.item.trim());
+
+const sameItem = (a: ReceiptLine, b: ReceiptLine) =>
+  a.item.trim().toUpperCase() === b.item.trim().toUpperCase();
+
+const toReconciled = (line: ReceiptLine): ReconciledLine => ({
+  ...line,
+  gross: line.total,
+  discount: 0,
+  voided: 0,
+  discountLines: []
+});
+
+// A named negative line that takes off some, but not all, of the units rung
+// up at their unit price is a void, e.g. 23.07 of eggs rung up as three 7.69
+// cases and two of them taken back off. Anything else, such as 2.00 off an
+// 8.00 item, is a discount however evenly it divides the total.
+const isVoid = (discount: ReceiptLine, parent: ReceiptLine): boolean => {
+  if (isGenericDiscount(discount) || parent.price <= 0) return false;
+  const units = -discount.total / parent.price;
+  return units >= 1 && units < parent.quantity && Math.abs(units - Math.round(units)) < 0.001;
+};
+
+// Picks the purchase a discount at `position` belongs to: for a bare DISCOUNT
+// the nearest item rung up before it, otherwise a purchase of the same item,
+// preferring ones that have not been discounted yet and then the nearest one
+// before the discount (Costco prints the discount right under the item).
+const findParent = (trip: ReceiptLine[], position: number, discounted: Set<number>): number => {
+  const discount = trip[position];
+  const purchases = trip
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => !isDiscountLine(line) && !isOverhead(line));
+
+  if (isGenericDiscount(discount)) {
+    const preceding = purchases.filter(({ index }) => index < position);
+    return preceding.length > 0 ? preceding[preceding.length - 1].index : -1;
+  }
+
+  const candidates = purchases
+    .filter(({ line }) => sameItem(line, discount))
+    .sort((a, b) => {
+      const aUsed = discounted.has(a.index) ? 1 : 0;
+      const bUsed = discounted.has(b.index) ? 1 : 0;
+      if (aUsed !== bUsed) return aUsed - bUsed;
+      const aBefore = a.index < position ? 0 : 1;
+      const bBefore = b.index < position ? 0 : 1;
+      if (aBefore !== bBefore) return aBefore - bBefore;
+      return Math.abs(position - a.index) - Math.abs(position - b.index);
+    });
+  return candidates.length > 0 ? candidates[0].index : -1;
+};
+
+// Folds every negative line into the purchase it reduces, trip by trip.
+// Negative lines with nothing to attach to (returns, voids of items not on
+// the receipt) are kept as they are.
+export const reconcileDiscounts = (lines: ReceiptLine[]): ReconciledLine[] => {
+  const trips: Record<string, number[]> = {};
+  lines.forEach((line, index) => {
+    const key = tripKey(line);
+    if (!trips[key]) trips[key] = [];
+    trips[key].push(index);
+  });
+
+  const reconciled = lines.map(toReconciled);
+  const absorbed = new Set<number>();
+
+  Object.values(trips).forEach(indexes => {
+    const trip = indexes.map(index => lines[index]);
+    const discounted = new Set<number>();
+
+    trip.forEach((line, position) => {
+      if (!isDiscountLine(line)) return;
+
+      const parent = findParent(trip, position, discounted);
+      if (parent === -1) return;
+
+      const target = reconciled[indexes[parent]];
+      if (isVoid(line, trip[parent])) {
+        target.voided += line.total;
+      } else {
+        target.discount += line.total;
+      }
+      target.total += line.total;
+      target.discountLines.push(line);
+      discounted.add(parent);
+      absorbed.add(indexes[position]);
+    });
+  });
+
+  return reconciled.filter((_, index) => !absorbed.has(index));
+};
+
+export const totalSavings = (lines: ReconciledLine[]): number =>
+  -lines.reduce((sum, line) => sum + line.discount, 0);
+
+export const summarizeSavingsByStore = (lines: ReconciledLine[]): Savings[] => {
+  const stores: Record<string, number> = {};
+  lines.forEach(line => {
+    if (line.discount === 0) return;
+    stores[line.store] = (stores[line.store] || 0) - line.discount;
+  });
+
+  return Object.entries(stores)
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export const summarizeSavingsByTrip = (lines: ReconciledLine[]): TripSavings[] => {
+  const trips: Record<string, TripSavings> = {};
+  lines.forEach(line => {
+    if (line.discount === 0) return;
+    const key = tripKey(line);
+    if (!trips[key]) {
+      trips[key] = { key, date: line.date, store: line.store, value: 0 };
+    }
+    trips[key].value -= line.discount;
+  });
+
+  return Object.values(trips).sort((a, b) => a.date.localeCompare(b.date));
+};
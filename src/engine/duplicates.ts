@@ -0,0 +1,74 @@
+import { purchaseKey, tripKey } from './keys';
+import type { DuplicateTrip, ReceiptLine, SuspectedDuplicate } from './types';
+
+const groupByTrip = (lines: ReceiptLine[]) => {
+  const trips = new Map<string, ReceiptLine[]>();
+  lines.forEach(line => {
+    const key = tripKey(line);
+    trips.set(key, [...(trips.get(key) ?? []), line]);
+  });
+  return trips;
+};
+
+const countKeys = (lines: ReceiptLine[]) => {
+  const counts: Record<string, number> = {};
+  lines.forEach(line => {
+    const key = purchaseKey(line);
+    counts[key] = (counts[key] ?? 0) + 1;
+  });
+  return counts;
+};
+
+// Receipts in `incoming` that were already imported, matched line by line.
+// Repeats within one receipt are real purchases, so only as many copies of a
+// line as the imported receipt already has are suspect; a trip on the same
+// date and store with nothing in common is a second visit and is left alone.
+export const findDuplicates = (existing: ReceiptLine[], incoming: ReceiptLine[]): DuplicateTrip[] => {
+  const existingTrips = groupByTrip(existing);
+  const duplicateTrips: DuplicateTrip[] = [];
+
+  groupByTrip(incoming).forEach((tripLines, key) => {
+    const existingLines = existingTrips.get(key);
+    if (!existingLines) return;
+
+    const existingCounts = countKeys(existingLines);
+    const incomingCounts = countKeys(tripLines);
+    const seen: Record<string, number> = {};
+    const duplicates: SuspectedDuplicate[] = [];
+    tripLines.forEach(line => {
+      const lineId = purchaseKey(line);
+      const occurrence = (seen[lineId] ?? 0) + 1;
+      seen[lineId] = occurrence;
+      if (occurrence <= (existingCounts[lineId] ?? 0)) {
+        duplicates.push({ key: lineId, line, occurrence, copies: incomingCounts[lineId], existingCopies: existingCounts[lineId] });
+      }
+    });
+    if (duplicates.length === 0) return;
+
+    const identical = duplicates.length === tripLines.length && duplicates.length === existingLines.length;
+    duplicateTrips.push({
+      date: tripLines[0].date,
+      store: tripLines[0].store,
+      overlap: identical ? 'identical' : 'partial',
+      incomingLines: tripLines.length,
+      existingLines: existingLines.length,
+      duplicates
+    });
+  });
+
+  return duplicateTrips.sort((a, b) => a.date.localeCompare(b.date) || a.store.localeCompare(b.store));
+};
+
+// Drops one line for each key given, so a receipt that repeats a line keeps
+// the copies that were not marked as duplicates.
+export const dropDuplicates = <T extends ReceiptLine>(lines: T[], keys: string[]): T[] => {
+  if (keys.length === 0) return lines;
+  const remaining: Record<string, number> = {};
+  keys.forEach(key => { remaining[key] = (remaining[key] ?? 0) + 1; });
+  return lines.filter(line => {
+    const key = purchaseKey(line);
+    if (!remaining[key]) return true;
+    remaining[key] -= 1;
+    return false;
+  });
+};
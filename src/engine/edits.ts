@@ -0,0 +1,73 @@
+import type { LineEdits, ReceiptLine } from './types';
+
+// Lines that replace an imported one keep its id, with the position added
+// after the first: "source#12", "source#12~1".
+const SPLIT = '~';
+
+export const lineOrigin = (id: string): string => id.split(SPLIT)[0];
+
+const withoutId = (line: ReceiptLine): ReceiptLine => {
+  const copy = { ...line };
+  delete copy.id;
+  return copy;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const applyLineEdits = <T extends ReceiptLine>(lines: T[], edits: LineEdits): T[] =>
+  lines.flatMap(line => {
+    const replacements = line.id ? edits[line.id] : undefined;
+    if (!replacements) return [line];
+    return replacements.map((replacement, index) => ({
+      ...line,
+      ...replacement,
+      id: index === 0 ? line.id : `${line.id}${SPLIT}${index}`
+    }));
+  });
+
+export const isEdited = (line: ReceiptLine, edits: LineEdits): boolean =>
+  !!line.id && lineOrigin(line.id) in edits;
+
+// Rewrites the chosen lines, given as they are shown after earlier edits. The
+// other lines split from the same imported line are kept as they are.
+export const editLines = (
+  lines: ReceiptLine[],
+  edits: LineEdits,
+  ids: string[],
+  edit: (line: ReceiptLine) => ReceiptLine[]
+): LineEdits => {
+  const chosen = new Set(ids);
+  const next = { ...edits };
+  new Set(ids.map(lineOrigin)).forEach(origin => {
+    next[origin] = lines
+      .filter(line => line.id && lineOrigin(line.id) === origin)
+      .flatMap(line => chosen.has(line.id ?? '') ? edit(line) : [line])
+      .map(withoutId);
+  });
+  return next;
+};
+
+// Keeps the total in step when quantity or price changes.
+export const updateLine = (line: ReceiptLine, change: Partial<ReceiptLine>): ReceiptLine => {
+  const next = { ...line, ...change };
+  return 'quantity' in change || 'price' in change ? { ...next, total: roundCents(next.quantity * next.price) } : next;
+};
+
+// Splits one unit off a line bought by the unit, or halves anything else,
+// e.g. to move part of a purchase to another category.
+export const splitLine = (line: ReceiptLine): ReceiptLine[] => {
+  if (line.quantity >= 2 && Number.isInteger(line.quantity)) {
+    const rest = { ...line, quantity: line.quantity - 1, total: roundCents(line.total - line.price) };
+    return [rest, { ...line, quantity: 1, total: roundCents(line.price) }];
+  }
+  const half = roundCents(line.total / 2);
+  const quantity = line.quantity / 2;
+  return [{ ...line, quantity, total: roundCents(line.total - half) }, { ...line, quantity, total: half }];
+};
+
+// Drops edits that put the imported lines back as they were.
+export const revertLines = (edits: LineEdits, ids: string[]): LineEdits => {
+  const next = { ...edits };
+  ids.forEach(id => { delete next[lineOrigin(id)]; });
+  return next;
+};
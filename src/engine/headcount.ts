@@ -0,0 +1,61 @@
+import type { Headcount, HeadcountEntry, PerPersonStats, ReceiptLine } from './types';
+import { addDays } from './keys';
+
+export const EMPTY_HEADCOUNT: Headcount = { entries: [], guestDays: [] };
+
+// Residents plus guests eating on one day. Days before the first entry count
+// as nobody, since we do not know.
+export const headcountOn = (headcount: Headcount, date: string): number => {
+  const entry = headcount.entries.reduce<HeadcountEntry | null>(
+    (latest, candidate) => candidate.from <= date && (!latest || candidate.from >= latest.from) ? candidate : latest,
+    null
+  );
+  const guests = headcount.guestDays
+    .filter(day => day.date === date)
+    .reduce((sum, day) => sum + day.guests, 0);
+  return (entry?.residents ?? 0) + guests;
+};
+
+// Sum of people eating on each day from `from` to `to`, inclusive.
+export const personDays = (headcount: Headcount, from: string, to: string): number => {
+  let total = 0;
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    total += headcountOn(headcount, date);
+  }
+  return total;
+};
+
+const dateSpan = (lines: ReceiptLine[]): { from: string; to: string } | null => {
+  if (lines.length === 0) return null;
+  const dates = lines.map(line => line.date).sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
+};
+
+// Cost per person over the days the lines span, overall and per category.
+// The span runs from the first to the last shopping day, so food bought on
+// the last trip is spread over that day only; a long dataset evens this out.
+export const summarizePerPerson = (
+  lines: ReceiptLine[],
+  headcount: Headcount,
+  span = dateSpan(lines)
+): PerPersonStats | null => {
+  if (!span) return null;
+  const days = personDays(headcount, span.from, span.to);
+  if (days <= 0) return null;
+
+  const categories: Record<string, number> = {};
+  lines.forEach(line => {
+    categories[line.category] = (categories[line.category] ?? 0) + line.total;
+  });
+  const total = Object.values(categories).reduce((sum, value) => sum + value, 0);
+
+  return {
+    ...span,
+    personDays: days,
+    costPerPersonDay: total / days,
+    costPerPersonWeek: total / days * 7,
+    byCategory: Object.entries(categories)
+      .map(([name, value]) => ({ name, value, perPersonDay: value / days }))
+      .sort((a, b) => b.value - a.value)
+  };
+};
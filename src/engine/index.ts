@@ -0,0 +1,25 @@
+export * from './types';
+export * from './keys';
+export * from './units';
+export * from './columns';
+export * from './validation';
+export * from './csv';
+export * from './receipts';
+export * from './catalog';
+export * from './categories';
+export * from './overhead';
+export * from './discounts';
+export * from './headcount';
+export * from './trips';
+export * from './ledger';
+export * from './trends';
+export * from './tags';
+export * from './budgets';
+export * from './restock';
+export * from './datasets';
+export * from './duplicates';
+export * from './edits';
+export * from './comparison';
+export * from './stores';
+export * from './summaries';
+export * from './items';
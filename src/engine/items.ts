@@ -0,0 +1,219 @@
+import type { BaseUnit, LineFilters, ReceiptLine, ReconciledLine } from './types';
+import { nameTokens } from './catalog';
+import { tripKey } from './keys';
+import { isOverhead } from './overhead';
+import { averageUnitPrice, dominantUnit } from './units';
+import { totalMatches } from './validation';
+
+export interface PurchaseDay {
+  date: string;
+  quantity: number;
+  total: number;
+}
+
+export interface PricePoint {
+  date: string;
+  store: string;
+  price: number; // per `unit`
+  unit: BaseUnit;
+}
+
+// How one store's price for an item moved between the first and the latest
+// purchase.
+export interface PriceChange {
+  store: string;
+  unit: BaseUnit;
+  first: PricePoint;
+  latest: PricePoint;
+  change: number; // fraction: 0.25 is 25% more than the first purchase
+}
+
+export interface PriceIncrease extends PriceChange {
+  item: string;
+  category: string;
+}
+
+// Smaller moves are usually a rounded weight rather than a new price.
+const MIN_PRICE_INCREASE = 0.01;
+
+export interface SearchQuery {
+  terms: string[]; // every one must match
+  excluded: string[]; // none may match
+}
+
+// Splits what was typed into terms. Quoted text is kept together as one
+// phrase and a leading "-" excludes a term: `milk -almond "sour cream"`.
+export const parseSearchQuery = (text: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], excluded: [] };
+  const pattern = /(-?)(?:"([^"]*)"?|(\S+))/g;
+  for (const match of text.matchAll(pattern)) {
+    const term = (match[2] ?? match[3] ?? '').trim().toLowerCase();
+    if (!term || term === '-') continue;
+    (match[1] ? query.excluded : query.terms).push(term);
+  }
+  return query;
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short terms have to match exactly; longer ones may be off by a typo or two.
+const allowedTypos = (term: string) => term.length < 4 ? 0 : term.length < 7 ? 1 : 2;
+
+const searchableWords = (line: ReceiptLine): string[] => {
+  const names = [line.item, line.rawItem ?? ''];
+  return [
+    ...names.flatMap(name => name.toLowerCase().split(/[^a-z0-9&']+/)),
+    ...names.flatMap(name => nameTokens(name).map(token => token.toLowerCase()))
+  ].filter(Boolean);
+};
+
+const matchesTerm = (line: ReceiptLine, text: string, term: string): boolean => {
+  if (text.includes(term)) return true;
+  const typos = allowedTypos(term);
+  if (typos === 0 || term.includes(' ')) return false;
+  return searchableWords(line).some(word =>
+    Math.abs(word.length - term.length) <= typos && editDistance(word, term) <= typos
+  );
+};
+
+const matchesQuery = (line: ReceiptLine, query: SearchQuery): boolean => {
+  const text = `${line.item} ${line.rawItem ?? ''}`.toLowerCase();
+  return query.terms.every(term => matchesTerm(line, text, term)) &&
+    !query.excluded.some(term => text.includes(term));
+};
+
+const matchesScope = (line: ReceiptLine, filters: LineFilters): boolean =>
+  (!filters.stores?.length || filters.stores.includes(line.store)) &&
+  (!filters.categories?.length || filters.categories.includes(line.category)) &&
+  (!filters.tags?.length || filters.tags.some(tag => line.tags?.includes(tag))) &&
+  (!filters.from || line.date >= filters.from) &&
+  (!filters.to || line.date <= filters.to);
+
+export const hasActiveFilters = (filters: LineFilters): boolean =>
+  Boolean(filters.stores?.length || filters.categories?.length || filters.tags?.length || filters.from || filters.to || filters.item?.trim());
+
+// Adds a store, category or tag to the filters, or takes it back out if it is
+// already there.
+export const toggleFilter = (filters: LineFilters, field: 'stores' | 'categories' | 'tags', value: string): LineFilters => {
+  const values = filters[field] ?? [];
+  return {
+    ...filters,
+    [field]: values.includes(value) ? values.filter(entry => entry !== value) : [...values, value]
+  };
+};
+
+// Item text is matched the way search matches it, typos and all.
+export const filterLines = <T extends ReceiptLine>(lines: T[], filters: LineFilters): T[] => {
+  if (!hasActiveFilters(filters)) return lines;
+  const query = parseSearchQuery(filters.item ?? '');
+  return lines.filter(line => matchesScope(line, filters) && matchesQuery(line, query));
+};
+
+// Matches item names, including the printed name behind a canonical one,
+// tolerating small typos and receipt abbreviations. Returns nothing until
+// there is a term or a filter to search by.
+export const searchItems = <T extends ReceiptLine>(lines: T[], searchTerm: string, filters: LineFilters = {}): T[] => {
+  const scoped = { ...filters, item: searchTerm };
+  return hasActiveFilters(scoped) ? filterLines(lines, scoped) : [];
+};
+
+// Quantity and spend per purchase date, oldest first.
+export const summarizePurchaseHistory = (lines: ReceiptLine[]): PurchaseDay[] => {
+  const historyByDate: Record<string, PurchaseDay> = {};
+  lines.forEach(line => {
+    if (!historyByDate[line.date]) {
+      historyByDate[line.date] = { date: line.date, quantity: 0, total: 0 };
+    }
+    historyByDate[line.date].quantity += line.quantity || 1;
+    historyByDate[line.date].total += line.total;
+  });
+
+  return Object.values(historyByDate).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Price per pound or per item on each trip, oldest first. Every point uses
+// the unit the item is mostly bought in, so a bagged and a loose purchase of
+// the same produce are not plotted against each other.
+export const summarizePriceHistory = (lines: ReceiptLine[]): PricePoint[] => {
+  const unit = dominantUnit(lines);
+  if (!unit) return [];
+
+  const linesByTrip: Record<string, ReceiptLine[]> = {};
+  lines.forEach(line => {
+    const key = tripKey(line);
+    if (!linesByTrip[key]) linesByTrip[key] = [];
+    linesByTrip[key].push(line);
+  });
+
+  return Object.values(linesByTrip)
+    .map(tripLines => {
+      const average = averageUnitPrice(tripLines, unit);
+      const { date, store } = tripLines[0];
+      return average && { date, store, price: average.price, unit };
+    })
+    .filter((point): point is PricePoint => point !== null)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.store.localeCompare(b.store));
+};
+
+// First-to-latest change at every store the item was bought at more than
+// once. Prices are only compared within a store.
+export const summarizePriceChanges = (history: PricePoint[]): PriceChange[] => {
+  const pointsByStore: Record<string, PricePoint[]> = {};
+  history.forEach(point => {
+    if (!pointsByStore[point.store]) pointsByStore[point.store] = [];
+    pointsByStore[point.store].push(point);
+  });
+
+  return Object.entries(pointsByStore)
+    .filter(([, points]) => points.length > 1)
+    .map(([store, points]) => {
+      const first = points[0];
+      const latest = points[points.length - 1];
+      return { store, unit: first.unit, first, latest, change: latest.price / first.price - 1 };
+    });
+};
+
+// Each purchase at its shelf price, before discounts, so a one-off coupon
+// does not show up as a price drop and then a hike on the next trip. Lines
+// whose quantity × price does not come to the total were probably
+// transcribed wrong and would throw the unit price off, so they are left out.
+export const shelfPriceLines = (lines: ReconciledLine[]): ReceiptLine[] =>
+  lines
+    .filter(line => !isOverhead(line))
+    .map(line => ({ ...line, total: line.gross }))
+    .filter(totalMatches);
+
+// Items whose shelf price went up the most, biggest rise first.
+export const findPriceIncreases = (lines: ReconciledLine[], limit = 10): PriceIncrease[] => {
+  const linesByItem: Record<string, ReceiptLine[]> = {};
+  shelfPriceLines(lines).forEach(line => {
+    if (!linesByItem[line.item]) linesByItem[line.item] = [];
+    linesByItem[line.item].push(line);
+  });
+
+  return Object.entries(linesByItem)
+    .flatMap(([item, itemLines]) =>
+      summarizePriceChanges(summarizePriceHistory(itemLines)).map(change => ({
+        ...change,
+        item,
+        category: itemLines[0].category
+      }))
+    )
+    .filter(increase => increase.change >= MIN_PRICE_INCREASE)
+    .sort((a, b) => b.change - a.change)
+    .slice(0, limit);
+};
@@ -0,0 +1,47 @@
+import type { ReceiptLine } from './types';
+
+// A trip is one visit to one store on one day.
+export const tripKey = (line: Pick<ReceiptLine, 'date' | 'store'>): string => `${line.date}|${line.store}`;
+
+// Two lines with the same key are the same purchase as far as the receipt
+// shows. Prices are part of it because a void can repeat an item's name.
+export const purchaseKey = (line: ReceiptLine): string =>
+  [line.date, line.store, line.item, line.quantity, line.unit, line.price, line.total].join('|');
+
+export const monthKey = (date: string): string => date.substring(0, 7); // YYYY-MM
+
+// Every date in a month. Day 31 closes any month because ISO dates compare as
+// strings.
+export const monthRange = (month: string): { from: string; to: string } => ({
+  from: `${month}-01`,
+  to: `${month}-31`
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00Z`);
+const formatDay = (day: Date) => day.toISOString().substring(0, 10);
+
+export const addDays = (date: string, days: number): string =>
+  formatDay(new Date(parseDay(date).getTime() + days * DAY_MS));
+
+// ISO 8601 week: weeks start on Monday, and week 1 is the one holding the
+// year's first Thursday, so late-December dates can belong to next year.
+export const isoWeek = (date: string): { key: string; from: string; to: string } => {
+  const weekday = (parseDay(date).getUTCDay() + 6) % 7; // Monday is 0
+  const monday = addDays(date, -weekday);
+  const thursday = parseDay(addDays(monday, 3));
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / DAY_MS / 7) + 1;
+  return { key: `${year}-W${String(week).padStart(2, '0')}`, from: monday, to: addDays(monday, 6) };
+};
+
+export const nextMonth = (month: string): string => {
+  const [year, index] = month.split('-').map(Number);
+  return index === 12 ? `${year + 1}-01` : `${year}-${String(index + 1).padStart(2, '0')}`;
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+export const lastDayOfMonth = (month: string): string => addDays(`${nextMonth(month)}-01`, -1);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import threeTrips from './__fixtures__/three-trips.csv?raw';
+import { importCsv } from './csv';
+import { reconcileDiscounts } from './discounts';
+import { settleLedger } from './ledger';
+import { buildTrips } from './trips';
+import type { Ledger, ReceiptLine } from './types';
+
+const lines = importCsv(threeTrips).lines.map(line => ({ ...line, id: `source#${line.lineNumber}` }));
+const costco = (receiptLines: ReceiptLine[]) => buildTrips(reconcileDiscounts(receiptLines))[0];
+
+// KODIAK CAKES, read from line 9 of the file, is Ben's alone.
+const ledger: Ledger = {
+  members: [{ name: 'Ana' }, { name: 'Ben' }],
+  payers: { [costco(lines).key]: 'Ana' },
+  personal: { 'source#9': 'Ben' }
+};
+
+const owedByBenAlone = (receiptLines: ReceiptLine[]) => {
+  const { balances } = settleLedger([costco(receiptLines)], ledger);
+  const owed = (name: string) => balances.find(entry => entry.name === name)?.owed ?? 0;
+  return owed('Ben') - owed('Ana');
+};
+
+describe('settleLedger', () => {
+  it('charges a personal line to its owner, net of its discount', () => {
+    expect(owedByBenAlone(lines)).toBeCloseTo(2.51);
+  });
+
+  it('keeps charging the same line when lines before it are removed', () => {
+    expect(owedByBenAlone(lines.filter(line => line.item !== 'A2YOGURT'))).toBeCloseTo(2.51);
+  });
+});
@@ -0,0 +1,94 @@
+import Papa from 'papaparse';
+import type { Ledger, Member, MemberBalance, ReceiptLine, Settlement, Transfer, Trip } from './types';
+
+export const EMPTY_LEDGER: Ledger = { members: [], payers: {}, personal: {} };
+
+// Identifies a line by the id it was imported with, which stays the same when
+// other lines of the trip are edited, split or folded into a purchase. Lines
+// without one fall back to their position in the trip.
+export const lineKey = (trip: Trip, line: ReceiptLine, index: number): string => line.id ?? `${trip.key}#${index}`;
+
+export const isMemberOn = (member: Member, date: string): boolean =>
+  (!member.from || member.from <= date) && (!member.to || date <= member.to);
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// Greedy settle-up: the biggest debtor pays the biggest creditor until one of
+// them is square. Each step clears at least one person, so there is at most
+// one transfer fewer than there are people with a balance.
+export const minimalTransfers = (balances: MemberBalance[]): Transfer[] => {
+  const creditors = balances.filter(entry => entry.balance > 0.005).map(entry => ({ ...entry }));
+  const debtors = balances.filter(entry => entry.balance < -0.005).map(entry => ({ ...entry }));
+  const transfers: Transfer[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.balance - a.balance);
+    debtors.sort((a, b) => a.balance - b.balance);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.balance, -debtor.balance);
+
+    transfers.push({ from: debtor.name, to: creditor.name, amount: cents(amount) });
+    creditor.balance -= amount;
+    debtor.balance += amount;
+    if (creditor.balance <= 0.005) creditors.shift();
+    if (debtor.balance >= -0.005) debtors.shift();
+  }
+  return transfers;
+};
+
+// Whoever paid for a trip is owed its full total. Personal lines are charged
+// to their owner; the rest is split evenly between the members sharing the
+// pool on the day of the trip, or left with the payer if nobody is.
+export const settleLedger = (trips: Trip[], ledger: Ledger): Settlement => {
+  const balances: Record<string, MemberBalance> = {};
+  const account = (name: string) =>
+    balances[name] ?? (balances[name] = { name, paid: 0, owed: 0, balance: 0 });
+  ledger.members.forEach(member => account(member.name));
+
+  const unassigned: Trip[] = [];
+  trips.forEach(trip => {
+    const payer = ledger.payers[trip.key];
+    if (!payer) {
+      unassigned.push(trip);
+      return;
+    }
+    account(payer).paid += trip.total;
+
+    let shared = trip.total;
+    trip.lines.forEach((line, index) => {
+      const owner = ledger.personal[lineKey(trip, line, index)];
+      if (!owner) return;
+      account(owner).owed += line.total;
+      shared -= line.total;
+    });
+
+    const sharers = ledger.members.filter(member => isMemberOn(member, trip.date));
+    if (sharers.length === 0) {
+      account(payer).owed += shared;
+    } else {
+      sharers.forEach(member => { account(member.name).owed += shared / sharers.length; });
+    }
+  });
+
+  const settled = Object.values(balances).map(entry => ({
+    ...entry,
+    paid: cents(entry.paid),
+    owed: cents(entry.owed),
+    balance: cents(entry.paid - entry.owed)
+  }));
+  return {
+    balances: settled.sort((a, b) => b.balance - a.balance),
+    transfers: minimalTransfers(settled),
+    unassigned
+  };
+};
+
+export const settlementCsv = (settlement: Settlement): string =>
+  Papa.unparse([
+    ['Type', 'From', 'To', 'Member', 'Paid', 'Owed', 'Amount'],
+    ...settlement.transfers.map(transfer => ['Transfer', transfer.from, transfer.to, '', '', '', transfer.amount.toFixed(2)]),
+    ...settlement.balances.map(entry => [
+      'Balance', '', '', entry.name, entry.paid.toFixed(2), entry.owed.toFixed(2), entry.balance.toFixed(2)
+    ])
+  ]);
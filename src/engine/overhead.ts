@@ -0,0 +1,99 @@
+import { tripKey } from './keys';
+import type { OverheadKind, OverheadSummary, ReceiptLine, StoreOverhead, TripOverhead } from './types';
+
+export const OVERHEAD_LABELS: Record<OverheadKind, string> = {
+  tax: 'Tax',
+  'bag-fee': 'Bag Fees',
+  deposit: 'Bottle Deposits'
+};
+
+const TAX = /^((SALES|STATE|LOCAL|CITY)\s+)?TAX(\s+\d.*)?$/i;
+// Anchored so BAGELS or bagged produce never count as a bag fee.
+const BAG_FEE = /^((CHECKOUT|PAPER|PLASTIC|T-SHIRT|REUSABLE)\s+)?BAGS?(\s+(FEE|TAX|CHARGE))?$/i;
+const DEPOSIT = /^(CRV|CA REDEMP VA|BOTTLE DEPOSIT|DEPOSIT|BTL DEP)$/i;
+
+// Tax, bag fees and bottle deposits are money spent at the register but not
+// merchandise. Category is only trusted for CRV, which was always entered as
+// its own category; tax lines were filed under "Other" and bags under
+// "Household".
+export const classifyOverhead = (line: ReceiptLine): OverheadKind | null => {
+  const item = line.item.trim();
+  if (BAG_FEE.test(item)) return 'bag-fee';
+  if (TAX.test(item)) return 'tax';
+  if (DEPOSIT.test(item) || line.category === 'CRV') return 'deposit';
+  return null;
+};
+
+export const isOverhead = (line: ReceiptLine): boolean => classifyOverhead(line) !== null;
+
+// Files overhead lines under their own categories so they read as one block
+// when a breakdown includes them.
+export const labelOverhead = <T extends ReceiptLine>(line: T): T => {
+  const kind = classifyOverhead(line);
+  return kind ? { ...line, category: OVERHEAD_LABELS[kind] } : line;
+};
+
+const emptyAmounts = () => ({ merchandise: 0, tax: 0, bagFees: 0, deposits: 0 });
+
+const addLine = (amounts: ReturnType<typeof emptyAmounts>, line: ReceiptLine) => {
+  switch (classifyOverhead(line)) {
+    case 'tax':
+      amounts.tax += line.total;
+      break;
+    case 'bag-fee':
+      amounts.bagFees += line.total;
+      break;
+    case 'deposit':
+      amounts.deposits += line.total;
+      break;
+    default:
+      amounts.merchandise += line.total;
+  }
+};
+
+export const summarizeOverheadByStore = (lines: ReceiptLine[]): StoreOverhead[] => {
+  const stores: Record<string, ReturnType<typeof emptyAmounts>> = {};
+  lines.forEach(line => {
+    if (!stores[line.store]) stores[line.store] = emptyAmounts();
+    addLine(stores[line.store], line);
+  });
+
+  return Object.entries(stores)
+    .map(([store, amounts]) => ({
+      store,
+      ...amounts,
+      // Tax over everything bought, since the receipts do not mark which
+      // items were taxable.
+      effectiveTaxRate: amounts.merchandise === 0 ? 0 : amounts.tax / amounts.merchandise
+    }))
+    .sort((a, b) => b.merchandise - a.merchandise);
+};
+
+export const summarizeOverheadByTrip = (lines: ReceiptLine[]): TripOverhead[] => {
+  const trips: Record<string, TripOverhead> = {};
+  lines.forEach(line => {
+    const key = tripKey(line);
+    if (!trips[key]) {
+      trips[key] = { key, date: line.date, store: line.store, ...emptyAmounts() };
+    }
+    addLine(trips[key], line);
+  });
+
+  return Object.values(trips).sort((a, b) => a.date.localeCompare(b.date) || a.store.localeCompare(b.store));
+};
+
+export const summarizeOverhead = (lines: ReceiptLine[]): OverheadSummary => {
+  const byStore = summarizeOverheadByStore(lines);
+  const tax = byStore.reduce((sum, store) => sum + store.tax, 0);
+  const bagFees = byStore.reduce((sum, store) => sum + store.bagFees, 0);
+  const deposits = byStore.reduce((sum, store) => sum + store.deposits, 0);
+
+  return {
+    total: tax + bagFees + deposits,
+    tax,
+    bagFees,
+    deposits,
+    byStore,
+    byTrip: summarizeOverheadByTrip(lines)
+  };
+};
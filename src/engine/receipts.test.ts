@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import costcoReceipt from './__fixtures__/costco-receipt.txt?raw';
+import wincoReceipt from './__fixtures__/winco-receipt.txt?raw';
+import { importCsv } from './csv';
+import { detectReceiptFormat, parseReceiptText, receiptCsv } from './receipts';
+import type { ReceiptLine } from './types';
+
+const row = (line: ReceiptLine) => [line.category, line.item, line.quantity, line.unit, line.price, line.total];
+
+describe('detectReceiptFormat', () => {
+  it('tells the stores apart by their header', () => {
+    expect(detectReceiptFormat(costcoReceipt)).toBe('costco');
+    expect(detectReceiptFormat(wincoReceipt)).toBe('winco');
+    expect(detectReceiptFormat('CORNER MARKET\nMILK 3.99')).toBeNull();
+  });
+});
+
+describe('parseReceiptText: Costco', () => {
+  const receipt = parseReceiptText(costcoReceipt, 'costco');
+
+  it('reads the store, date and printed total', () => {
+    expect(receipt.store).toBe('Costco');
+    expect(receipt.date).toBe('2025-02-15');
+    expect(receipt.total).toBe(60.73);
+  });
+
+  it('reads every purchase, with instant savings under the item they belong to', () => {
+    expect(receipt.lines.map(row)).toEqual([
+      ['', 'A2YOGURT', 1, 'each', 8.99, 8.99],
+      ['', 'SLC CHEDDAR', 1, 'each', 10.69, 10.69],
+      ['', 'KS LAGER', 1, 'each', 13.99, 13.99],
+      ['CRV', 'CA REDEMP VA', 1, 'each', 0.6, 0.6],
+      ['', "DAVE'S THIN", 1, 'each', 9.49, 9.49],
+      ['', "DAVE'S THIN", 1, 'each', -2.5, -2.5],
+      ['', "DAVE'S THIN", 1, 'each', 9.49, 9.49],
+      ['', "DAVE'S THIN", 1, 'each', -2.5, -2.5],
+      ['', 'ORG BELLAS', 2, 'each', 5.69, 11.38],
+      ['Other', 'TAX', 1, 'each', 1.1, 1.1]
+    ]);
+    expect(receipt.lines.every(line => line.date === '2025-02-15' && line.store === 'Costco')).toBe(true);
+  });
+
+  it('skips subtotals, tenders and the savings summary', () => {
+    expect(receipt.unread).toEqual([]);
+    expect(receipt.lines.map(line => line.item)).not.toContain('INSTANT SAVINGS');
+  });
+
+  it('adds up to the printed total', () => {
+    expect(receipt.lines.reduce((sum, line) => sum + line.total, 0)).toBeCloseTo(60.73);
+  });
+});
+
+describe('parseReceiptText: WinCo', () => {
+  const receipt = parseReceiptText(wincoReceipt, 'winco');
+
+  it('reads the date and takes BALANCE as the total', () => {
+    expect(receipt.store).toBe('WinCo Foods');
+    expect(receipt.date).toBe('2025-02-22');
+    expect(receipt.total).toBe(18.79);
+  });
+
+  it('reads counts and weights inline, below the item and in place of its amount', () => {
+    expect(receipt.lines.map(row)).toEqual([
+      ['', 'KALE', 3, 'each', 1.28, 3.84],
+      ['', 'CAB NAPPA', 2.37, 'lb', 0.98, 2.32],
+      ['', 'ASPARAGUS', 2.1, 'lb', 1.88, 3.95],
+      ['', 'BANANAS', 1, 'each', 1.7, 1.7],
+      ['', 'WINCO BRD CRMBS', 1, 'each', 7.88, 7.88],
+      ['Household', 'T-SHIRT BAG', 1, 'each', 0.1, 0.1],
+      ['', 'COUPON', 1, 'each', -1, -1]
+    ]);
+  });
+
+  it('keeps rows with an amount but no name to enter by hand', () => {
+    expect(receipt.unread).toEqual([{ lineNumber: 12, text: '????                           9.99' }]);
+  });
+
+  it('adds up to the printed total', () => {
+    expect(receipt.lines.reduce((sum, line) => sum + line.total, 0)).toBeCloseTo(18.79);
+  });
+});
+
+describe('receiptCsv', () => {
+  it('writes lines that import again unchanged', () => {
+    const { lines } = parseReceiptText(wincoReceipt, 'winco');
+    const imported = importCsv(receiptCsv(lines));
+    expect(imported.issues).toEqual([]);
+    expect(imported.lines.map(row)).toEqual(lines.map(row));
+  });
+});
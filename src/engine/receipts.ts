@@ -0,0 +1,201 @@
+import Papa from 'papaparse';
+import { classifyOverhead } from './overhead';
+import type { OverheadKind, ParsedReceipt, ReceiptFormat, ReceiptLine, UnreadReceiptRow } from './types';
+import { normalizeDate, totalMatches } from './validation';
+
+export const RECEIPT_STORES: Record<ReceiptFormat, string> = {
+  costco: 'Costco',
+  winco: 'WinCo Foods'
+};
+
+// Overhead goes under the categories it was always entered with by hand;
+// merchandise is left blank for the categorizer.
+const OVERHEAD_CATEGORIES: Record<OverheadKind, string> = { tax: 'Other', 'bag-fee': 'Household', deposit: 'CRV' };
+
+// An amount at the end of a printed line. Both stores print credits with the
+// minus after the amount, and a tax flag letter after that: "2.50- A".
+const TRAILING_AMOUNT = /\s+(-?)\$?(\d+\.\d{2})(-?)(?:\s+[A-Z*]{1,2})?\s*$/;
+// Count or weight behind a price: "3 @ 1.28" or "2.37 lb @ 0.98 /lb".
+const DETAIL = /(\d+(?:\.\d+)?)\s*(lbs?|oz|kg)?\s*@\s*\$?(\d+\.\d{2})(?:\s*\/\s*(?:lbs?|oz|kg|ea))?/i;
+const RECEIPT_DATE = /\b(\d{1,2}\/\d{1,2}\/(?:\d{4}|\d{2}))\b/;
+const RECEIPT_TOTAL = /^\W*(?:TOTAL|BALANCE(?: DUE)?|AMOUNT DUE)\W*$/i;
+// "TAX", "SALES TAX" or Costco's "A 7.25% TAX".
+const TAX_ROW = /^(?:[A-Z]\s+[\d.]+%\s+)?(?:SALES\s+)?TAX$/i;
+// Subtotals, tenders, card slips and savings summaries carry amounts but are
+// not purchases.
+const NOT_A_PURCHASE = /SUB\s*TOTAL|\bTOTAL\b|BALANCE|CHANGE|\bCASH\b|VISA|MASTERCARD|\bAMEX\b|DISCOVER|DEBIT|CREDIT|TENDER|APPROVED|\bAUTH|ITEMS SOLD|YOU SAVED|INSTANT SAVINGS|REWARDS?\b/i;
+
+export const detectReceiptFormat = (text: string): ReceiptFormat | null => {
+  if (/COSTCO/i.test(text)) return 'costco';
+  if (/WIN\s*CO/i.test(text)) return 'winco';
+  return null;
+};
+
+// A line read so far, with the item number or UPC printed in front of it.
+interface Draft {
+  code: string | null;
+  line: ReceiptLine;
+  detailed: boolean;
+}
+
+type PurchaseReader = (name: string, total: number, drafts: Draft[], store: string) => Draft | null;
+
+const cleanName = (name: string) => name.replace(/\s+/g, ' ').trim();
+
+const newLine = (store: string, item: string, total: number): ReceiptLine => {
+  const kind = classifyOverhead({ date: '', store, category: '', item, quantity: 1, unit: 'each', price: total, total });
+  return {
+    date: '',
+    store,
+    category: kind ? OVERHEAD_CATEGORIES[kind] : '',
+    item,
+    quantity: 1,
+    unit: 'each',
+    price: total,
+    total
+  };
+};
+
+// Takes the count or weight from a detail, as long as it comes to the total.
+const withDetail = (line: ReceiptLine, detail: RegExpMatchArray): ReceiptLine | null => {
+  const unit = detail[2] ? detail[2].toLowerCase().replace(/s$/, '') : 'each';
+  const next = { ...line, quantity: Number(detail[1]), unit, price: Number(detail[3]) };
+  return totalMatches(next) ? next : null;
+};
+
+// Costco prints its item number before the name, and instant savings as
+// their own row pointing back at the item number: "0000356789 / 1234567  2.50-".
+const readCostcoPurchase: PurchaseReader = (name, total, drafts, store) => {
+  const savings = name.match(/^(?:\d+\s*)?(?:TPD\s*)?\/\s*(\d{3,})$/i);
+  if (savings) {
+    const parent = [...drafts].reverse().find(draft => draft.code === savings[1]);
+    const line = newLine(store, parent?.line.item ?? 'INSTANT SAVINGS', -Math.abs(total));
+    return { code: null, line: parent ? { ...line, category: parent.line.category } : line, detailed: true };
+  }
+
+  const numbered = name.match(/^(?:E\s+)?(\d{3,})\s+(.*[A-Z].*)$/i);
+  const item = cleanName(numbered ? numbered[2] : name);
+  if (!/[A-Z]/i.test(item)) return null;
+  return { code: numbered?.[1] ?? null, line: newLine(store, item, total), detailed: false };
+};
+
+// WinCo may print a UPC before the name; weighed produce gets its
+// "lb @ price" on the row below.
+const readWincoPurchase: PurchaseReader = (name, total, _drafts, store) => {
+  const coded = name.match(/^(\d{5,})\s+(.*)$/);
+  const item = cleanName(coded ? coded[2] : name);
+  if (!/[A-Z]/i.test(item)) return null;
+  return { code: coded?.[1] ?? null, line: newLine(store, item, total), detailed: false };
+};
+
+const PARSERS: Record<ReceiptFormat, PurchaseReader> = {
+  costco: readCostcoPurchase,
+  winco: readWincoPurchase
+};
+
+const readAmount = (text: string) => {
+  const match = text.match(TRAILING_AMOUNT);
+  if (!match || match.index === undefined) return null;
+  const amount = Number(match[2]) * (match[1] || match[3] ? -1 : 1);
+  return { name: text.slice(0, match.index).trim(), amount };
+};
+
+// Turns receipt text, as copied from an emailed receipt or an OCR app, into
+// receipt lines. A count or weight printed on its own row is matched to the
+// purchase above it when it adds up, otherwise to the one below (Costco
+// prints it first); a name printed with no amount takes the amount from the
+// detail row under it.
+export const parseReceiptText = (text: string, format: ReceiptFormat): ParsedReceipt => {
+  const store = RECEIPT_STORES[format];
+  const readPurchase = PARSERS[format];
+  const drafts: Draft[] = [];
+  const unread: UnreadReceiptRow[] = [];
+  let total: number | null = null;
+  let pendingName: string | null = null;
+  let pendingDetail: RegExpMatchArray | null = null;
+
+  const add = (draft: Draft) => {
+    if (!draft.detailed && pendingDetail) {
+      const detailed = withDetail(draft.line, pendingDetail);
+      if (detailed) drafts.push({ ...draft, line: detailed, detailed: true });
+      else drafts.push(draft);
+    } else {
+      drafts.push(draft);
+    }
+    pendingDetail = null;
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const row = raw.trim();
+    if (!row) return;
+    const detail = row.match(DETAIL);
+
+    if (detail && detail.index !== undefined && !/[A-Z]{2}/i.test(row.slice(0, detail.index))) {
+      const amount = readAmount(row.slice(detail.index + detail[0].length));
+      if (amount && pendingName) {
+        const line = newLine(store, pendingName, amount.amount);
+        add({ code: null, line: withDetail(line, detail) ?? line, detailed: true });
+      } else if (amount) {
+        unread.push({ lineNumber: index + 1, text: row });
+      } else {
+        const last = drafts[drafts.length - 1];
+        const detailed = last && !last.detailed ? withDetail(last.line, detail) : null;
+        if (detailed) drafts[drafts.length - 1] = { ...last, line: detailed, detailed: true };
+        else pendingDetail = detail;
+      }
+      pendingName = null;
+      return;
+    }
+
+    const amount = readAmount(row);
+    if (!amount) {
+      pendingName = /[A-Z]{2}/i.test(row) ? cleanName(row) : null;
+      return;
+    }
+    pendingName = null;
+
+    if (RECEIPT_TOTAL.test(amount.name)) {
+      total = amount.amount;
+      return;
+    }
+    if (TAX_ROW.test(amount.name)) {
+      add({ code: null, line: newLine(store, 'TAX', amount.amount), detailed: true });
+      return;
+    }
+    if (NOT_A_PURCHASE.test(amount.name)) return;
+
+    const inline = amount.name.match(DETAIL);
+    const name = inline && inline.index !== undefined ? amount.name.slice(0, inline.index) : amount.name;
+    const draft = readPurchase(name, amount.amount, drafts, store);
+    if (!draft) {
+      unread.push({ lineNumber: index + 1, text: row });
+      return;
+    }
+    const detailed = inline ? withDetail(draft.line, inline) : null;
+    add(detailed ? { ...draft, line: detailed, detailed: true } : draft);
+  });
+
+  const printedDate = text.match(RECEIPT_DATE);
+  const date = printedDate ? normalizeDate(printedDate[1]) : null;
+  return {
+    format,
+    store,
+    date,
+    lines: drafts.map(draft => ({ ...draft.line, date: date ?? '' })),
+    total,
+    unread
+  };
+};
+
+// The lines in the eight-column layout every other import uses.
+export const receiptCsv = (lines: ReceiptLine[]): string =>
+  Papa.unparse(lines.map(line => [
+    line.date,
+    line.store,
+    line.category,
+    line.item,
+    String(line.quantity),
+    line.unit,
+    line.price.toFixed(2),
+    line.total.toFixed(2)
+  ]));
@@ -0,0 +1,113 @@
+import type { ReceiptLine, ReconciledLine, RestockPrediction, ShoppingList, ShoppingListEntry } from './types';
+import { shelfPriceLines } from './items';
+import { addDays, daysBetween } from './keys';
+import { isOverhead } from './overhead';
+import { median } from './summaries';
+import { compareStoreUnitPrices, dominantUnit } from './units';
+
+// Fewer purchases than this give a single interval at most, which says
+// little about how fast something runs out.
+const MIN_PURCHASES = 3;
+
+// Skipping this many of an item's usual intervals in a row reads as no longer
+// buying it rather than being out of it.
+const LAPSED_INTERVALS = 2;
+
+const gapsBetween = (dates: string[]): number[] =>
+  dates.slice(1).map((date, index) => daysBetween(dates[index], date));
+
+// The last shopping day plus the household's usual gap between trips, or the
+// last day itself when there is only one.
+export const nextTripDate = (lines: ReceiptLine[]): string | null => {
+  const dates = [...new Set(lines.map(line => line.date))].sort();
+  if (dates.length === 0) return null;
+  const last = dates[dates.length - 1];
+  return dates.length < 2 ? last : addDays(last, Math.round(median(gapsBetween(dates))));
+};
+
+// Where an item costs least per pound or per item, in the unit it is mostly
+// bought in. Shelf prices keep a one-off coupon from deciding the store.
+const cheapestStore = (lines: ReconciledLine[]) => {
+  const shelf = shelfPriceLines(lines);
+  const unit = dominantUnit(shelf);
+  return compareStoreUnitPrices(shelf).find(entry => entry.unit === unit) ?? null;
+};
+
+// Expects each item to run out after its median gap between purchases, and
+// to be bought again in its median quantity. Buying the same item at two
+// stores on one day counts as one purchase. Lapsed items sort last.
+export const predictRestock = (lines: ReconciledLine[], tripDate: string, minPurchases = MIN_PURCHASES): RestockPrediction[] => {
+  const linesByItem: Record<string, ReconciledLine[]> = {};
+  lines.forEach(line => {
+    if (isOverhead(line)) return;
+    if (!linesByItem[line.item]) linesByItem[line.item] = [];
+    linesByItem[line.item].push(line);
+  });
+
+  return Object.entries(linesByItem)
+    .map(([item, itemLines]) => {
+      const quantityByDate: Record<string, number> = {};
+      itemLines.forEach(line => {
+        quantityByDate[line.date] = (quantityByDate[line.date] ?? 0) + (line.quantity || 1);
+      });
+      const dates = Object.keys(quantityByDate).sort();
+      if (dates.length < minPurchases) return null;
+
+      const latest = itemLines.reduce((last, line) => line.date > last.date ? line : last);
+      const interval = median(gapsBetween(dates));
+      const nextDue = addDays(latest.date, Math.round(interval));
+      const daysUntilDue = daysBetween(tripDate, nextDue);
+      const lapsed = -daysUntilDue > interval * LAPSED_INTERVALS;
+      const cheapest = cheapestStore(itemLines);
+
+      return {
+        item,
+        category: latest.category,
+        purchases: dates.length,
+        interval,
+        quantity: Math.round(median(Object.values(quantityByDate)) * 100) / 100,
+        unit: latest.unit || 'each',
+        lastPurchased: latest.date,
+        nextDue,
+        daysUntilDue,
+        due: daysUntilDue <= 0 && !lapsed,
+        lapsed,
+        store: cheapest?.store ?? latest.store,
+        unitPrice: cheapest && { price: cheapest.price, unit: cheapest.unit }
+      };
+    })
+    .filter((prediction): prediction is RestockPrediction => prediction !== null)
+    .sort((a, b) => Number(a.lapsed) - Number(b.lapsed) || a.daysUntilDue - b.daysUntilDue || a.item.localeCompare(b.item));
+};
+
+export const shoppingListEntry = (prediction: RestockPrediction): ShoppingListEntry => ({
+  item: prediction.item,
+  category: prediction.category,
+  store: prediction.store,
+  quantity: prediction.quantity,
+  unit: prediction.unit,
+  checked: false
+});
+
+// A fresh list of everything due by the trip.
+export const buildShoppingList = (predictions: RestockPrediction[], tripDate: string): ShoppingList => ({
+  tripDate,
+  entries: predictions.filter(prediction => prediction.due).map(shoppingListEntry)
+});
+
+// Entries grouped by store, stores and the entries within them in aisle-ish
+// order: by category, then by name.
+export const shoppingListByStore = (entries: ShoppingListEntry[]): { store: string; entries: ShoppingListEntry[] }[] => {
+  const byStore: Record<string, ShoppingListEntry[]> = {};
+  entries.forEach(entry => {
+    if (!byStore[entry.store]) byStore[entry.store] = [];
+    byStore[entry.store].push(entry);
+  });
+
+  return Object.entries(byStore)
+    .map(([store, storeEntries]) => ({
+      store,
+      entries: [...storeEntries].sort((a, b) => a.category.localeCompare(b.category) || a.item.localeCompare(b.item))
+    }))
+    .sort((a, b) => a.store.localeCompare(b.store));
+};
@@ -0,0 +1,109 @@
+import type { CrossStoreItem, ReceiptLine, ReconciledLine, StoreBasket, StoreComparison, StoreOverlap } from './types';
+import { shelfPriceLines } from './items';
+import { tripKey } from './keys';
+import { isOverhead } from './overhead';
+import { compareStoreUnitPrices, dominantUnit } from './units';
+
+// A store charging more than this many times another's price per item is
+// almost always selling a different pack size under the same unit.
+const MAX_PRICE_RATIO = 3;
+
+const groupBy = <T extends ReceiptLine>(lines: T[], keyOf: (line: T) => string): Record<string, T[]> => {
+  const groups: Record<string, T[]> = {};
+  lines.forEach(line => {
+    const key = keyOf(line);
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(line);
+  });
+  return groups;
+};
+
+// Prices each item at every store it was bought at, in the unit it is mostly
+// bought in. Shelf prices are compared so a one-off coupon does not make a
+// store look cheaper than it is; items sold at only one store in that unit
+// have nothing to compare against and are left out.
+const compareItems = (lines: ReconciledLine[]): CrossStoreItem[] =>
+  Object.entries(groupBy(shelfPriceLines(lines), line => line.item))
+    .flatMap(([item, itemLines]) => {
+      const unit = dominantUnit(itemLines);
+      const prices = compareStoreUnitPrices(itemLines).filter(entry => entry.unit === unit);
+      if (!unit || prices.length < 2) return [];
+      const cheapest = prices[0];
+      const dearest = prices[prices.length - 1];
+      const comparable = dearest.price <= cheapest.price * MAX_PRICE_RATIO;
+      return [{
+        item,
+        category: itemLines[0].category,
+        unit,
+        prices,
+        cheapest: cheapest.store,
+        spread: dearest.price / cheapest.price - 1,
+        comparable,
+        savings: comparable ? prices.reduce((sum, entry) => sum + (entry.price - cheapest.price) * entry.amount, 0) : 0
+      }];
+    })
+    .sort((a, b) => Number(b.comparable) - Number(a.comparable) || b.savings - a.savings || b.spread - a.spread);
+
+const compareBaskets = (itemsByStore: Record<string, Set<string>>): StoreOverlap[] => {
+  const stores = Object.keys(itemsByStore).sort();
+  return stores.flatMap((first, index) =>
+    stores.slice(index + 1).map(second => {
+      const a = itemsByStore[first];
+      const b = itemsByStore[second];
+      const shared = [...a].filter(item => b.has(item)).length;
+      const either = a.size + b.size - shared;
+      return {
+        stores: [first, second] as [string, string],
+        shared,
+        firstOnly: a.size - shared,
+        secondOnly: b.size - shared,
+        similarity: either === 0 ? 0 : shared / either
+      };
+    })
+  );
+};
+
+// Lines up the stores the household shops at: what each one supplied, which
+// items more than one of them sold, what those cost per pound or per item at
+// each, and what buying every one of them at its cheapest store would have
+// saved over the lines given. Overhead is left out, as it follows the
+// merchandise wherever it is bought.
+export const compareStores = (lines: ReconciledLine[]): StoreComparison => {
+  const merchandise = lines.filter(line => !isOverhead(line) && line.gross > 0);
+  const byStore = groupBy(merchandise, line => line.store);
+  const itemsByStore = Object.fromEntries(
+    Object.entries(byStore).map(([store, storeLines]) => [store, new Set(storeLines.map(line => line.item))])
+  );
+  const storesOf = (item: string) => Object.values(itemsByStore).filter(items => items.has(item)).length;
+
+  const items = compareItems(merchandise);
+  const overpaid: Record<string, number> = {};
+  items.filter(entry => entry.comparable).forEach(entry => {
+    const cheapest = entry.prices[0].price;
+    entry.prices.forEach(price => {
+      overpaid[price.store] = (overpaid[price.store] ?? 0) + (price.price - cheapest) * price.amount;
+    });
+  });
+
+  const stores: StoreBasket[] = Object.entries(byStore)
+    .map(([store, storeLines]) => {
+      const shared = storeLines.filter(line => storesOf(line.item) > 1);
+      return {
+        store,
+        trips: new Set(storeLines.map(tripKey)).size,
+        spent: storeLines.reduce((sum, line) => sum + line.total, 0),
+        items: itemsByStore[store].size,
+        sharedItems: new Set(shared.map(line => line.item)).size,
+        sharedSpent: shared.reduce((sum, line) => sum + line.total, 0),
+        overpaid: overpaid[store] ?? 0
+      };
+    })
+    .sort((a, b) => b.spent - a.spent);
+
+  return {
+    stores,
+    overlaps: compareBaskets(itemsByStore),
+    items,
+    savings: items.reduce((sum, entry) => sum + entry.savings, 0)
+  };
+};
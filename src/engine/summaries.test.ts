@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import threeTrips from './__fixtures__/three-trips.csv?raw';
+import { importCsv } from './csv';
+import { reconcileDiscounts } from './discounts';
+import { analyze, computeStats, summarizeByCategory, summarizeTopItems, withOverhead } from './summaries';
+
+// Cut from public/combined_grocery_data.csv: part of the 2025-02-15 Costco
+// trip, with instant savings and a deposit, and of the 2025-03-22 and
+// 2025-03-29 WinCo trips, with deposits, a bag fee and tax.
+const lines = importCsv(threeTrips).lines;
+const merchandise = withOverhead(reconcileDiscounts(lines), false);
+
+describe('summarizeByCategory', () => {
+  it('sums each category net of discounts, largest first', () => {
+    const categories = summarizeByCategory(merchandise);
+    expect(categories.map(share => share.name)).toEqual(['Alcohol', 'Dairy', 'Produce', 'Bakery', 'Pantry']);
+    expect(categories[0].value).toBeCloseTo(42.41);
+    expect(categories.find(share => share.name === 'Bakery')?.value).toBeCloseTo(13.98);
+    expect(categories.find(share => share.name === 'Pantry')?.value).toBeCloseTo(2.51);
+  });
+
+  it('gives shares that add up to 100', () => {
+    const total = summarizeByCategory(merchandise).reduce((sum, share) => sum + share.percentage, 0);
+    expect(total).toBeCloseTo(100);
+  });
+
+  it('gives no shares for no lines', () => {
+    expect(summarizeByCategory([])).toEqual([]);
+  });
+});
+
+describe('summarizeTopItems', () => {
+  it('counts purchases, not the discount lines folded into them', () => {
+    const top = summarizeTopItems(merchandise, 3);
+    expect(top.map(item => [item.name, item.count])).toEqual([["DAVE'S THIN", 2], ['BANANAS', 2], ['KALE', 2]]);
+    expect(top[0].total).toBeCloseTo(13.98);
+    expect(top[0].gross).toBeCloseTo(18.98);
+  });
+
+  it('prices an item per unit across its purchases', () => {
+    const kale = summarizeTopItems(merchandise).find(item => item.name === 'KALE');
+    expect(kale?.unitPrice?.unit).toBe('each');
+    expect(kale?.unitPrice?.price).toBeCloseTo(0.98);
+  });
+
+  it('leaves overhead out even when it is passed in', () => {
+    const names = summarizeTopItems(reconcileDiscounts(lines), 50).map(item => item.name);
+    expect(names).not.toContain('CRV');
+    expect(names).not.toContain('CA REDEMP VA');
+    expect(names).not.toContain('SALES TAX');
+  });
+});
+
+describe('computeStats', () => {
+  it('totals spend, trips and savings', () => {
+    const stats = computeStats(merchandise);
+    expect(stats.totalSpent).toBeCloseTo(94.56);
+    expect(stats.totalTrips).toBe(3);
+    expect(stats.avgPerTrip).toBeCloseTo(31.52);
+    expect(stats.totalItems).toBe(14);
+    expect(stats.totalSavings).toBeCloseTo(6.49);
+  });
+
+  it('does not divide by zero without trips', () => {
+    expect(computeStats([]).avgPerTrip).toBe(0);
+  });
+});
+
+describe('analyze', () => {
+  it('leaves tax, bag fees and deposits out by default', () => {
+    const analysis = analyze(lines);
+    expect(analysis.stats.totalSpent).toBeCloseTo(94.56);
+    expect(analysis.categories.map(share => share.name)).not.toContain('Other');
+  });
+
+  // One dashboard used to drop the CRV category and the other a "CA Redemp VA"
+  // category that never existed, so Costco's deposits were counted by one and
+  // not the other. Both spellings are the same deposit.
+  it('treats CRV and CA REDEMP VA as the same bottle deposit', () => {
+    const analysis = analyze(lines);
+    const names = analysis.lines.map(line => line.item);
+    expect(names).not.toContain('CRV');
+    expect(names).not.toContain('CA REDEMP VA');
+    expect(analysis.categories.map(share => share.name)).not.toContain('CRV');
+    expect(analysis.overhead.deposits).toBeCloseTo(1.3);
+  });
+
+  it('files overhead under its own categories when asked to include it', () => {
+    const categories = analyze(lines, { includeOverhead: true }).categories;
+    const names = categories.map(share => share.name);
+    expect(names).not.toContain('CRV');
+    expect(categories.find(share => share.name === 'Bottle Deposits')?.value).toBeCloseTo(1.3);
+    expect(categories.find(share => share.name === 'Tax')?.value).toBeCloseTo(6.8);
+    expect(categories.find(share => share.name === 'Bag Fees')?.value).toBeCloseTo(0.2);
+  });
+
+  it('applies filters after discounts are matched', () => {
+    const analysis = analyze(lines, { filters: { stores: ['Costco'] } });
+    expect(analysis.stats.totalSpent).toBeCloseTo(53.14);
+    expect(analysis.stats.totalSavings).toBeCloseTo(6.49);
+    expect(analysis.trips).toHaveLength(1);
+  });
+
+  it('summarizes months in order', () => {
+    expect(analyze(lines).months.map(month => month.month)).toEqual(['2025-02', '2025-03']);
+  });
+});
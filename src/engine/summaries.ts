@@ -0,0 +1,144 @@
+import type {
+  Analysis,
+  AnalysisOptions,
+  ItemSummary,
+  MonthlySpend,
+  ReceiptLine,
+  ReconciledLine,
+  SpendingStats,
+  SpendShare
+} from './types';
+import { summarizeBudgets } from './budgets';
+import { canonicalize } from './catalog';
+import { reconcileDiscounts, summarizeSavingsByStore, summarizeSavingsByTrip, totalSavings } from './discounts';
+import { summarizePerPerson } from './headcount';
+import { filterLines } from './items';
+import { monthKey, tripKey } from './keys';
+import { isOverhead, labelOverhead, summarizeOverhead } from './overhead';
+import { tagLines } from './tags';
+import { buildTrips } from './trips';
+import { averageUnitPrice } from './units';
+
+export const sumTotals = (lines: ReceiptLine[]): number =>
+  lines.reduce((sum, line) => sum + line.total, 0);
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Sums totals per key and turns them into shares of the same set of lines,
+// so the percentages of a breakdown always add up to 100.
+const toShares = (lines: ReceiptLine[], keyOf: (line: ReceiptLine) => string): SpendShare[] => {
+  const totals: Record<string, number> = {};
+  lines.forEach(line => {
+    const key = keyOf(line);
+    totals[key] = (totals[key] || 0) + line.total;
+  });
+
+  const grandTotal = sumTotals(lines);
+  return Object.entries(totals).map(([name, value]) => ({
+    name,
+    value,
+    percentage: grandTotal === 0 ? 0 : value * 100 / grandTotal
+  })).sort((a, b) => b.value - a.value);
+};
+
+export const summarizeByCategory = (lines: ReceiptLine[]): SpendShare[] =>
+  toShares(lines, line => line.category);
+
+export const summarizeByStore = (lines: ReceiptLine[]): SpendShare[] =>
+  toShares(lines, line => line.store);
+
+export const summarizeByMonth = (lines: ReceiptLine[]): MonthlySpend[] => {
+  const months: Record<string, number> = {};
+  lines.forEach(line => {
+    if (!line.date.includes('-')) return;
+    const month = monthKey(line.date);
+    months[month] = (months[month] || 0) + line.total;
+  });
+
+  return Object.entries(months)
+    .map(([month, spent]) => ({ month, spent }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+};
+
+export const summarizeTopItems = (lines: ReconciledLine[], limit = 10): ItemSummary[] => {
+  const items: Record<string, { count: number; total: number; gross: number; category: string; lines: ReconciledLine[] }> = {};
+  lines.forEach(line => {
+    if (isOverhead(line)) return;
+    if (!items[line.item]) {
+      items[line.item] = { count: 0, total: 0, gross: 0, category: line.category, lines: [] };
+    }
+    items[line.item].lines.push(line);
+    items[line.item].count++;
+    items[line.item].total += line.total;
+    items[line.item].gross += line.gross;
+  });
+
+  return Object.entries(items)
+    .map(([name, stats]) => ({
+      name,
+      count: stats.count,
+      total: stats.total,
+      gross: stats.gross,
+      category: stats.category,
+      avgPrice: stats.total / stats.count,
+      unitPrice: averageUnitPrice(stats.lines)
+    }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+export const computeStats = (lines: ReconciledLine[]): SpendingStats => {
+  const totalSpent = sumTotals(lines);
+  const totalTrips = new Set(lines.map(tripKey)).size;
+
+  return {
+    totalSpent,
+    avgPerTrip: totalTrips === 0 ? 0 : totalSpent / totalTrips,
+    totalTrips,
+    totalItems: lines.length,
+    totalSavings: totalSavings(lines)
+  };
+};
+
+// Leaves out tax, bag fees and deposits, or keeps them under their own
+// categories, so a breakdown and its percentages cover the same lines.
+export const withOverhead = <T extends ReceiptLine>(lines: T[], includeOverhead: boolean): T[] =>
+  includeOverhead ? lines.map(labelOverhead) : lines.filter(line => !isOverhead(line));
+
+// Everything the dashboards render, computed from one set of receipt lines.
+// Discount lines are folded into the purchases they reduce first, so they
+// count against the right category and never show up as items of their own.
+// Discounts are matched on the raw receipt names, then renamed to products.
+// Filters apply last, so a discount still finds its purchase when only one of
+// them falls in the filtered range.
+export const analyze = (lines: ReceiptLine[], options: AnalysisOptions = {}): Analysis => {
+  const discounted = reconcileDiscounts(lines);
+  const named = options.catalog ? canonicalize(discounted, options.catalog) : discounted;
+  const canonical = options.tags ? tagLines(named, options.tags) : named;
+  const reconciled = filterLines(canonical, options.filters ?? {});
+  const counted = filterLines(withOverhead(canonical, options.includeOverhead ?? false), options.filters ?? {});
+
+  return {
+    lines: counted,
+    categories: summarizeByCategory(counted),
+    stores: summarizeByStore(counted),
+    months: summarizeByMonth(counted),
+    topItems: summarizeTopItems(counted, options.topItemLimit ?? 10),
+    trips: buildTrips(reconciled),
+    savingsByStore: summarizeSavingsByStore(reconciled),
+    savingsByTrip: summarizeSavingsByTrip(reconciled),
+    overhead: summarizeOverhead(reconciled),
+    stats: computeStats(counted),
+    perPerson: options.headcount
+      ? summarizePerPerson(counted, options.headcount, options.filters?.from && options.filters.to
+        ? { from: options.filters.from, to: options.filters.to }
+        : undefined)
+      : null,
+    budgets: summarizeBudgets(counted, options.budgets ?? [])
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAG_SETTINGS, tagLines } from './tags';
+import type { ReceiptLine } from './types';
+
+const line = (category: string, item: string): ReceiptLine =>
+  ({ date: '2025-02-15', store: 'Costco', category, item, quantity: 1, unit: 'each', price: 1, total: 1 });
+
+const tagsFor = (category: string, item: string) => tagLines([line(category, item)], DEFAULT_TAG_SETTINGS)[0].tags;
+
+describe('DEFAULT_TAG_SETTINGS', () => {
+  it('tags plant milks and beans as vegan', () => {
+    expect(tagsFor('Other', 'ORG SILK ALM')).toContain('vegan');
+    expect(tagsFor('Other', 'SILK OAK ALM')).toContain('vegan');
+    expect(tagsFor('Pantry', 'BEANS LNTLS RED')).toContain('vegan');
+  });
+
+  it('leaves a silk rug untagged', () => {
+    expect(tagsFor('Other', "SILK RUG 6'")).toEqual([]);
+  });
+
+  it('tags by category as well as by name', () => {
+    expect(tagsFor('Produce', 'KALE')).toEqual(['perishable', 'vegan']);
+    expect(tagsFor('Dairy', 'ORGANIC MILK')).toEqual(['organic', 'perishable']);
+  });
+});
@@ -0,0 +1,100 @@
+import { normalizeItemName } from './catalog';
+import { periodOf } from './trends';
+import type { ReceiptLine, TagRule, TagSettings, TagSharePoint, TagSummary, TimeGranularity } from './types';
+
+const rule = (field: TagRule['field'], pattern: string, tag: string): TagRule => ({ field, pattern, tag });
+
+// Starting rules for the tags the kitchen tracks. "Shared" and "personal"
+// depend on who asked for what, so those are given by hand.
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  rule('item', '^(ORG|OG|ORGANIC)\\b|\\bORGANIC\\b', 'organic'),
+  rule('item', '\\b\\d+\\s?(LBS?\\b|#)|\\bBULK\\b', 'bulk'),
+  rule('category', '^(Produce|Dairy|Meat|Eggs|Bakery)$', 'perishable'),
+  rule('category', '^Produce$', 'vegan'),
+  // Silk the brand, not Costco's silk rugs.
+  rule('item', '\\b(TOFU|VEGAN|SILK (ALM|OAK|OAT|SOY)\\w*|OAT MILK|BEANS?|LENTILS?|LNTLS)\\b', 'vegan')
+];
+
+export const DEFAULT_TAG_SETTINGS: TagSettings = { rules: DEFAULT_TAG_RULES, items: {} };
+
+// Tags are compared in lower case with single spaces, so "Organic " and
+// "organic" are one tag.
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(normalizeTag).filter(Boolean))];
+
+// A rule being typed may not be a valid expression yet; it matches nothing
+// until it is.
+const compile = (pattern: string): RegExp | null => {
+  try {
+    return pattern ? new RegExp(pattern, 'i') : null;
+  } catch {
+    return null;
+  }
+};
+
+export const tagLines = <T extends ReceiptLine>(lines: T[], settings: TagSettings): T[] => {
+  const rules = settings.rules
+    .map(entry => ({ ...entry, expression: compile(entry.pattern) }))
+    .filter(entry => entry.expression && normalizeTag(entry.tag));
+
+  return lines.map(line => {
+    const names = [...new Set([line.rawItem ?? line.item, line.item].map(normalizeItemName))];
+    const tags = new Set(names.flatMap(name => settings.items[name] ?? []));
+    rules.forEach(entry => {
+      const values = entry.field === 'item' ? names : [line[entry.field]];
+      if (values.some(value => entry.expression?.test(value))) tags.add(normalizeTag(entry.tag));
+    });
+    return { ...line, tags: [...tags].sort() };
+  });
+};
+
+export const tagsOf = (lines: ReceiptLine[]): string[] =>
+  [...new Set(lines.flatMap(line => line.tags ?? []))].sort();
+
+export const summarizeByTag = (lines: ReceiptLine[]): TagSummary[] => {
+  const grandTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const tags: Record<string, { total: number; lines: number; items: Set<string> }> = {};
+  lines.forEach(line => {
+    (line.tags ?? []).forEach(tag => {
+      if (!tags[tag]) tags[tag] = { total: 0, lines: 0, items: new Set() };
+      tags[tag].total += line.total;
+      tags[tag].lines++;
+      tags[tag].items.add(line.item);
+    });
+  });
+
+  return Object.entries(tags)
+    .map(([tag, entry]) => ({
+      tag,
+      total: entry.total,
+      share: grandTotal === 0 ? 0 : entry.total / grandTotal,
+      lines: entry.lines,
+      items: entry.items.size
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+// How much of each period's spend carried the tag, oldest period first.
+export const tagShareByPeriod = (lines: ReceiptLine[], tag: string, granularity: TimeGranularity): TagSharePoint[] => {
+  const periods: Record<string, TagSharePoint> = {};
+  lines.forEach(line => {
+    const period = periodOf(line, granularity);
+    if (!periods[period.key]) periods[period.key] = { key: period.key, label: period.label, total: 0, tagged: 0, share: 0 };
+    periods[period.key].total += line.total;
+    if (line.tags?.includes(tag)) periods[period.key].tagged += line.total;
+  });
+
+  return Object.values(periods)
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map(point => ({ ...point, share: point.total === 0 ? 0 : point.tagged / point.total }));
+};
+
+export const setItemTags = (settings: TagSettings, item: string, tags: string[]): TagSettings => {
+  const items = { ...settings.items };
+  const name = normalizeItemName(item);
+  if (tags.length > 0) items[name] = tags;
+  else delete items[name];
+  return { ...settings, items };
+};
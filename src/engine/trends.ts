@@ -0,0 +1,124 @@
+import type { Headcount, ReceiptLine, TimeGranularity, Trend, TrendBreakdown, TrendPoint } from './types';
+import { personDays } from './headcount';
+import { addDays, isoWeek, monthKey, monthRange, nextMonth, tripKey } from './keys';
+
+interface Period {
+  key: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export const GRANULARITY_LABELS: Record<TimeGranularity, string> = {
+  trip: 'Trip',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month'
+};
+
+export const periodOf = (line: ReceiptLine, granularity: TimeGranularity): Period => {
+  switch (granularity) {
+    case 'trip':
+      return { key: tripKey(line), label: `${line.date} ${line.store}`, from: line.date, to: line.date };
+    case 'day':
+      return { key: line.date, label: line.date, from: line.date, to: line.date };
+    case 'week': {
+      const week = isoWeek(line.date);
+      return { ...week, label: week.key };
+    }
+    case 'month': {
+      const month = monthKey(line.date);
+      return { key: month, label: month, ...monthRange(month) };
+    }
+  }
+};
+
+// Weeks and months with no shopping still get a point, at zero, so gaps show
+// up in the trend and the rolling average spans real time.
+const fillGaps = (periods: Period[], granularity: TimeGranularity): Period[] => {
+  if (periods.length === 0 || granularity === 'trip' || granularity === 'day') return periods;
+
+  const filled: Period[] = [];
+  const last = periods[periods.length - 1];
+  let current = periods[0];
+  while (current.key <= last.key) {
+    filled.push(current);
+    if (granularity === 'week') {
+      const week = isoWeek(addDays(current.from, 7));
+      current = { ...week, label: week.key };
+    } else {
+      const month = nextMonth(current.key);
+      current = { key: month, label: month, ...monthRange(month) };
+    }
+  }
+  return filled;
+};
+
+const UNTAGGED = 'untagged';
+
+const seriesNames = (line: ReceiptLine, breakdown: TrendBreakdown): string[] => {
+  switch (breakdown) {
+    case 'category':
+      return [line.category];
+    case 'store':
+      return [line.store];
+    case 'tag':
+      return line.tags?.length ? line.tags : [UNTAGGED];
+    case 'total':
+      return ['total'];
+  }
+};
+
+export interface TrendOptions {
+  breakdown?: TrendBreakdown;
+  averageWindow?: number; // periods in the rolling average
+  headcount?: Headcount; // divide every value by the person-days in its period
+}
+
+// Spend per period, oldest first, optionally split by category, store or tag,
+// with a trailing average to smooth out the swings. A line with several tags
+// counts toward each of them, and one with none toward "untagged".
+export const summarizeTrend = (lines: ReceiptLine[], granularity: TimeGranularity, options: TrendOptions = {}): Trend => {
+  const { breakdown = 'total', averageWindow = 3, headcount } = options;
+  const periods: Record<string, Period> = {};
+  const spent: Record<string, Record<string, number>> = {};
+  const totals: Record<string, number> = {};
+  const seriesTotals: Record<string, number> = {};
+
+  lines.forEach(line => {
+    const period = periodOf(line, granularity);
+    periods[period.key] = period;
+    if (!spent[period.key]) spent[period.key] = {};
+    totals[period.key] = (totals[period.key] ?? 0) + line.total;
+    seriesNames(line, breakdown).forEach(name => {
+      spent[period.key][name] = (spent[period.key][name] ?? 0) + line.total;
+      seriesTotals[name] = (seriesTotals[name] ?? 0) + line.total;
+    });
+  });
+
+  // Trip keys start with the date, so sorting by key keeps every
+  // granularity in date order.
+  const ordered = fillGaps(Object.values(periods).sort((a, b) => a.key.localeCompare(b.key)), granularity);
+
+  const points: TrendPoint[] = ordered.map(period => {
+    const days = headcount ? personDays(headcount, period.from, period.to) : 0;
+    const scale = (value: number) => headcount ? (days > 0 ? value / days : 0) : value;
+    const values = Object.fromEntries(Object.entries(spent[period.key] ?? {}).map(([name, value]) => [name, scale(value)]));
+    return {
+      ...period,
+      spent: scale(totals[period.key] ?? 0),
+      rollingAverage: 0,
+      personDays: days,
+      breakdown: breakdown === 'total' ? {} : values
+    };
+  });
+  points.forEach((point, index) => {
+    const window = points.slice(Math.max(0, index - averageWindow + 1), index + 1);
+    point.rollingAverage = window.reduce((sum, entry) => sum + entry.spent, 0) / window.length;
+  });
+
+  return {
+    points,
+    series: breakdown === 'total' ? [] : Object.keys(seriesTotals).sort((a, b) => seriesTotals[b] - seriesTotals[a])
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import threeTrips from './__fixtures__/three-trips.csv?raw';
+import { importCsv } from './csv';
+import { reconcileDiscounts } from './discounts';
+import { buildTrips } from './trips';
+
+const trips = buildTrips(reconcileDiscounts(importCsv(threeTrips).lines));
+
+describe('buildTrips', () => {
+  it('rebuilds one receipt per date and store, oldest first', () => {
+    expect(trips.map(trip => [trip.date, trip.store])).toEqual([
+      ['2025-02-15', 'Costco'],
+      ['2025-03-22', 'WinCo Foods'],
+      ['2025-03-29', 'WinCo Foods']
+    ]);
+  });
+
+  it('splits a receipt into merchandise, discounts and overhead', () => {
+    const [costco, , winco] = trips;
+    expect(costco.itemCount).toBe(8);
+    expect(costco.subtotal).toBeCloseTo(53.14);
+    expect(costco.discounts).toBeCloseTo(6.49);
+    expect(costco.fees).toBeCloseTo(0.6);
+    expect(costco.tax).toBe(0);
+    expect(costco.total).toBeCloseTo(53.74);
+
+    expect(winco.itemCount).toBe(3);
+    expect(winco.subtotal).toBeCloseTo(28.76);
+    expect(winco.fees).toBeCloseTo(0.8);
+    expect(winco.tax).toBeCloseTo(6.08);
+    expect(winco.total).toBeCloseTo(35.64);
+  });
+
+  it('keeps the receipt total equal to the lines it was built from', () => {
+    trips.forEach(trip => {
+      expect(trip.total).toBeCloseTo(trip.lines.reduce((sum, line) => sum + line.total, 0));
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { isDiscountLine } from './discounts';
+import { tripKey } from './keys';
+import { classifyOverhead, labelOverhead } from './overhead';
+import type { Bucket, ReceiptLine, ReconciledLine, Trip, TripFocus } from './types';
+
+// Rebuilds each receipt from its reconciled lines, in the order they were rung up.
+export const buildTrips = (lines: ReconciledLine[]): Trip[] => {
+  const trips: Record<string, Trip> = {};
+  lines.forEach(line => {
+    const key = tripKey(line);
+    if (!trips[key]) {
+      trips[key] = {
+        key,
+        date: line.date,
+        store: line.store,
+        lines: [],
+        itemCount: 0,
+        subtotal: 0,
+        discounts: 0,
+        tax: 0,
+        fees: 0,
+        total: 0
+      };
+    }
+
+    const trip = trips[key];
+    trip.lines.push(line);
+    trip.total += line.total;
+    trip.discounts -= line.discount;
+
+    const kind = classifyOverhead(line);
+    if (kind === 'tax') {
+      trip.tax += line.total;
+    } else if (kind) {
+      trip.fees += line.total;
+    } else {
+      trip.subtotal += line.total;
+      if (!isDiscountLine(line)) trip.itemCount++;
+    }
+  });
+
+  return Object.values(trips).sort((a, b) => a.date.localeCompare(b.date) || a.store.localeCompare(b.store));
+};
+
+// Overhead lines match both the category they were filed under and the one
+// they are shown under when a breakdown includes overhead.
+export const lineMatchesFocus = (line: ReceiptLine, focus: TripFocus): boolean =>
+  (focus.store === undefined || line.store === focus.store) &&
+  (focus.category === undefined || line.category === focus.category || labelOverhead(line).category === focus.category) &&
+  (focus.item === undefined || line.item === focus.item) &&
+  (focus.from === undefined || focus.from <= line.date) &&
+  (focus.to === undefined || line.date <= focus.to);
+
+// Trips with at least one line behind the chart element that was clicked.
+export const tripsMatching = (trips: Trip[], focus: TripFocus): Trip[] =>
+  trips.filter(trip => trip.lines.some(line => lineMatchesFocus(line, focus)));
+
+const describeRange = (from?: string, to?: string) =>
+  from === to ? from : [from ?? '…', to ?? '…'].join(' – ');
+
+export const describeFocus = (focus: TripFocus): string =>
+  [describeRange(focus.from, focus.to), focus.store, focus.category, focus.item].filter(Boolean).join(' · ');
+
+// Groups values into equal-width buckets from zero up to the largest value.
+export const distribution = (values: number[], bucketSize: number, formatBound: (value: number) => string = String): Bucket[] => {
+  if (values.length === 0) return [];
+  const bucketCount = Math.floor(Math.max(...values) / bucketSize) + 1;
+  const buckets: Bucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+    label: `${formatBound(index * bucketSize)}–${formatBound((index + 1) * bucketSize)}`,
+    min: index * bucketSize,
+    max: (index + 1) * bucketSize,
+    count: 0
+  }));
+  values.forEach(value => {
+    buckets[Math.max(0, Math.floor(value / bucketSize))].count++;
+  });
+  return buckets;
+};
@@ -0,0 +1,575 @@
+// One row of a receipt, as transcribed into combined_grocery_data.csv.
+export interface ReceiptLine {
+  date: string; // YYYY-MM-DD
+  store: string;
+  category: string;
+  item: string;
+  quantity: number;
+  unit: string;
+  price: number;
+  total: number;
+  rawItem?: string; // the name as printed, when `item` is a canonical product name
+  lineNumber?: number; // line of the CSV file the line was read from
+  id?: string; // where the line was imported from, for edits made in the app
+  tags?: string[]; // set while analyzing, from the tag settings
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  brand: string;
+  category: string; // used for lines imported without a category
+}
+
+// Canonical products plus the raw receipt names that refer to them.
+export interface Catalog {
+  products: Product[];
+  aliases: Record<string, string>; // normalized raw item name -> product id
+}
+
+export interface ProductSuggestion {
+  product: Product;
+  score: number; // 0..1
+}
+
+// A purchase with the negative lines that reduce it folded in. `total` is the
+// net amount paid, `gross` the shelf price before any discount. Voids (an item
+// rung up and taken back off at full price) reduce the total but are not
+// counted as savings.
+export interface ReconciledLine extends ReceiptLine {
+  gross: number;
+  discount: number; // zero or negative
+  voided: number; // zero or negative
+  discountLines: ReceiptLine[];
+}
+
+// Quantities are compared in one of two base units: weight in pounds, or a
+// count of individual items.
+export type BaseUnit = 'lb' | 'each';
+
+export interface Measure {
+  amount: number;
+  unit: BaseUnit;
+}
+
+export interface UnitPrice {
+  price: number; // per one base unit
+  unit: BaseUnit;
+}
+
+export interface StoreUnitPrice extends UnitPrice {
+  store: string;
+  amount: number; // total bought at this store, in `unit`
+  purchases: number;
+}
+
+export interface Savings {
+  name: string;
+  value: number; // positive amount saved
+}
+
+export interface TripSavings {
+  key: string;
+  date: string;
+  store: string;
+  value: number;
+}
+
+export interface SpendShare {
+  name: string;
+  value: number;
+  percentage: number;
+}
+
+// Someone who chips into the kitchen pool while they live here.
+export interface Member {
+  name: string;
+  from?: string; // YYYY-MM-DD; open-ended when unset
+  to?: string;
+}
+
+// Who fronted the money for each trip, and which lines were one person's own
+// rather than the kitchen's.
+export interface Ledger {
+  members: Member[];
+  payers: Record<string, string>; // trip key -> member name
+  personal: Record<string, string>; // line key -> member name
+}
+
+export interface MemberBalance {
+  name: string;
+  paid: number;
+  owed: number;
+  balance: number; // positive when the kitchen owes them
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface Settlement {
+  balances: MemberBalance[];
+  transfers: Transfer[];
+  unassigned: Trip[]; // trips nobody has been recorded as paying for
+}
+
+// Who was eating from the kitchen. Each entry holds from its date until the
+// next entry starts; guest days add people on top for a single day.
+export interface HeadcountEntry {
+  from: string; // YYYY-MM-DD
+  residents: number;
+  note?: string;
+}
+
+export interface GuestDay {
+  date: string;
+  guests: number;
+  note?: string;
+}
+
+export interface Headcount {
+  entries: HeadcountEntry[];
+  guestDays: GuestDay[];
+}
+
+export interface PerPersonShare {
+  name: string;
+  value: number;
+  perPersonDay: number;
+}
+
+export interface PerPersonStats {
+  from: string;
+  to: string;
+  personDays: number;
+  costPerPersonDay: number;
+  costPerPersonWeek: number;
+  byCategory: PerPersonShare[];
+}
+
+export type BudgetPeriod = 'week' | 'month';
+
+export interface Budget {
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+}
+
+export interface BudgetPeriodSpend {
+  key: string; // ISO week or YYYY-MM
+  from: string;
+  to: string;
+  spent: number;
+}
+
+// Where a category stands in the period holding `asOf`, projected forward at
+// the pace spent so far.
+export interface BudgetStatus {
+  key: string;
+  from: string;
+  to: string;
+  asOf: string;
+  spent: number;
+  remaining: number;
+  projected: number;
+  overBudget: boolean; // already spent more than the budget
+  onPaceToOvershoot: boolean; // projected to end the period over budget
+}
+
+export interface BudgetSummary extends Budget {
+  periods: BudgetPeriodSpend[]; // every period with data, oldest first
+  averageSpent: number;
+  periodsOver: number;
+  current: BudgetStatus;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  remaining: number | null; // budget left after this day's spending; null after `asOf`
+  ideal: number; // what would be left spending evenly across the period
+  projected: number | null; // continuing the current pace; null before `asOf`
+}
+
+// When an item is likely to run out, judged from how often it has been bought.
+export interface RestockPrediction {
+  item: string;
+  category: string;
+  purchases: number; // days it was bought on
+  interval: number; // median days between purchases
+  quantity: number; // median bought per purchase
+  unit: string;
+  lastPurchased: string;
+  nextDue: string;
+  daysUntilDue: number; // from the next trip; negative when overdue
+  due: boolean; // runs out by the next trip
+  lapsed: boolean; // overdue for so long it has probably been dropped
+  store: string; // cheapest per pound or item, or the only store it came from
+  unitPrice: UnitPrice | null; // at that store
+}
+
+export interface ShoppingListEntry {
+  item: string;
+  category: string;
+  store: string;
+  quantity: number;
+  unit: string;
+  checked: boolean;
+}
+
+export interface ShoppingList {
+  tripDate: string;
+  entries: ShoppingListEntry[];
+}
+
+export type TimeGranularity = 'trip' | 'day' | 'week' | 'month';
+
+export type TrendBreakdown = 'total' | 'category' | 'store' | 'tag';
+
+export interface TrendPoint {
+  key: string;
+  label: string;
+  from: string; // first date in the period, YYYY-MM-DD
+  to: string; // last date in the period
+  spent: number; // per person-day when the trend is per person
+  rollingAverage: number; // mean spend over this and the preceding periods
+  personDays: number; // zero without a headcount
+  breakdown: Record<string, number>; // spend per category or store
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  series: string[]; // breakdown names, biggest first
+}
+
+export interface MonthlySpend {
+  month: string; // YYYY-MM
+  spent: number;
+}
+
+export interface ItemSummary {
+  name: string;
+  count: number;
+  total: number; // net of discounts
+  gross: number;
+  category: string;
+  avgPrice: number; // per purchase
+  unitPrice: UnitPrice | null; // per pound or per item, across all purchases
+}
+
+// One receipt: every line rung up at one store on one day.
+export interface Trip {
+  key: string;
+  date: string;
+  store: string;
+  lines: ReconciledLine[];
+  itemCount: number; // merchandise lines, not counting overhead
+  subtotal: number; // merchandise, net of discounts
+  discounts: number; // positive amount saved
+  tax: number;
+  fees: number; // bag fees and bottle deposits
+  total: number;
+}
+
+// What a chart element stood for when it was clicked, used to list the trips
+// that contributed to it.
+export interface TripFocus {
+  store?: string;
+  category?: string;
+  item?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export interface Bucket {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface SpendingStats {
+  totalSpent: number;
+  avgPerTrip: number;
+  totalTrips: number;
+  totalItems: number;
+  totalSavings: number;
+}
+
+export type OverheadKind = 'tax' | 'bag-fee' | 'deposit';
+
+interface OverheadAmounts {
+  merchandise: number;
+  tax: number;
+  bagFees: number;
+  deposits: number;
+}
+
+export interface StoreOverhead extends OverheadAmounts {
+  store: string;
+  effectiveTaxRate: number; // tax / merchandise
+}
+
+export interface TripOverhead extends OverheadAmounts {
+  key: string;
+  date: string;
+  store: string;
+}
+
+export interface OverheadSummary {
+  total: number;
+  tax: number;
+  bagFees: number;
+  deposits: number;
+  byStore: StoreOverhead[];
+  byTrip: TripOverhead[];
+}
+
+// Drops the lines whose field matches a case-insensitive regular expression.
+export interface DatasetExclusion {
+  field: 'store' | 'category' | 'item';
+  pattern: string;
+}
+
+// One season of receipts and how to read it.
+export interface Dataset {
+  id: string;
+  name: string; // short label for pickers and comparisons
+  title: string;
+  source?: string; // CSV served with the app; without one the data is uploaded
+  from?: string;
+  to?: string;
+  exclusions?: DatasetExclusion[];
+  headcount?: Headcount; // starting point until edited under People
+}
+
+export interface MetricDelta {
+  label: string;
+  kind: 'currency' | 'count';
+  before: number;
+  after: number;
+  change: number | null; // fraction; null when there is nothing before
+}
+
+export interface ShareDelta {
+  name: string;
+  before: SpendShare | null; // null when only the other season has it
+  after: SpendShare | null;
+  shareChange: number; // percentage points
+}
+
+export interface TripSpendDelta {
+  store: string;
+  before: number | null; // average per trip; null without trips there
+  after: number | null;
+  change: number | null;
+}
+
+export interface ItemPriceDelta {
+  item: string;
+  category: string;
+  unit: BaseUnit;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface SeasonComparison {
+  metrics: MetricDelta[];
+  categories: ShareDelta[];
+  tripSpend: TripSpendDelta[];
+  items: ItemPriceDelta[]; // bought in both seasons, biggest rise first
+}
+
+// How a trip in an incoming file lines up with the receipt of the same date
+// and store that is already imported.
+export type TripOverlap = 'identical' | 'partial';
+
+// An incoming line that is already imported. `occurrence` counts copies of
+// the same line on the incoming receipt, so a second DAVE'S THIN discount is
+// only suspect if the imported receipt has two as well.
+export interface SuspectedDuplicate {
+  key: string;
+  line: ReceiptLine;
+  occurrence: number;
+  copies: number; // on the incoming receipt
+  existingCopies: number; // on the imported receipt
+}
+
+export interface DuplicateTrip {
+  date: string;
+  store: string;
+  overlap: TripOverlap;
+  incomingLines: number;
+  existingLines: number;
+  duplicates: SuspectedDuplicate[];
+}
+
+// Tags every line whose field matches `pattern`, a case-insensitive regular
+// expression: ^ORG\b on the item for organic, ^Produce$ on the category for
+// perishable. Item rules see both the printed and the product name.
+export interface TagRule {
+  field: 'item' | 'category' | 'store';
+  pattern: string;
+  tag: string;
+}
+
+export interface TagSettings {
+  rules: TagRule[];
+  items: Record<string, string[]>; // normalized item or product name -> tags given by hand
+}
+
+// Lines can carry several tags, so shares across tags add up to more than 100.
+export interface TagSummary {
+  tag: string;
+  total: number;
+  share: number; // of all the lines' spend, 0..1
+  lines: number;
+  items: number;
+}
+
+export interface TagSharePoint {
+  key: string;
+  label: string;
+  total: number;
+  tagged: number;
+  share: number; // 0..1
+}
+
+// Corrections made in the app, by the id of the imported line they replace.
+// An empty list deletes the line and a longer one splits it.
+export type LineEdits = Record<string, ReceiptLine[]>;
+
+// Files items whose name has every word of `keyword` under `category`, e.g.
+// SILK under Dairy. Words are compared with abbreviations spelled out.
+export interface CategoryRule {
+  keyword: string;
+  category: string;
+}
+
+export interface CategorySettings {
+  rules: CategoryRule[]; // the first match wins
+  assignments: Record<string, string>; // normalized raw item name -> category, overriding the receipts
+}
+
+export type CategorySource = 'assigned' | 'catalog' | 'history' | 'rule';
+
+export interface CategoryGuess {
+  category: string;
+  source: CategorySource;
+}
+
+export interface CategoryUse {
+  category: string;
+  lines: number;
+  trips: number;
+}
+
+// An item whose category looks wrong: filed under more than one category,
+// or only ever under "Other" while a rule knows better.
+export interface Miscategorization {
+  item: string; // normalized raw item name
+  reason: 'inconsistent' | 'rule';
+  uses: CategoryUse[]; // most lines first
+  suggested: string;
+}
+
+// Stores whose receipt text can be pasted in and read.
+export type ReceiptFormat = 'costco' | 'winco';
+
+// A printed line that had an amount on it but could not be read as a
+// purchase, kept so it can be entered by hand.
+export interface UnreadReceiptRow {
+  lineNumber: number;
+  text: string;
+}
+
+export interface ParsedReceipt {
+  format: ReceiptFormat;
+  store: string;
+  date: string | null; // null when no date was printed or it was cut off
+  lines: ReceiptLine[];
+  total: number | null; // as printed, to check the lines against
+  unread: UnreadReceiptRow[];
+}
+
+// One store's side of the store comparison. `overpaid` is what the items
+// also bought elsewhere would have cost less at whichever store was cheapest.
+export interface StoreBasket {
+  store: string;
+  trips: number;
+  spent: number; // net of discounts
+  items: number; // distinct items bought there
+  sharedItems: number; // of those, also bought at another store
+  sharedSpent: number;
+  overpaid: number;
+}
+
+// How many items two stores both supplied, out of everything bought at either.
+export interface StoreOverlap {
+  stores: [string, string];
+  shared: number;
+  firstOnly: number;
+  secondOnly: number;
+  similarity: number; // shared over all items at either, 0 to 1
+}
+
+// An item bought at more than one store, priced per pound or per item.
+export interface CrossStoreItem {
+  item: string;
+  category: string;
+  unit: BaseUnit;
+  prices: StoreUnitPrice[]; // cheapest first
+  cheapest: string;
+  spread: number; // fraction: 0.25 is the dearest store charging 25% more
+  // False when the prices are too far apart to be for the same size, as
+  // when one store sells lemons by the bag and another one at a time.
+  comparable: boolean;
+  savings: number; // had every purchase been made at the cheapest store; 0 unless comparable
+}
+
+export interface StoreComparison {
+  stores: StoreBasket[];
+  overlaps: StoreOverlap[];
+  items: CrossStoreItem[]; // biggest savings first
+  savings: number;
+}
+
+// Narrows the dashboards to part of the data. Unset fields match everything.
+export interface LineFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  stores?: string[];
+  categories?: string[];
+  item?: string; // search text, as typed into item search
+  tags?: string[]; // lines carrying any of them
+}
+
+export interface AnalysisOptions {
+  // Count tax, bag fees and bottle deposits in every breakdown. Off by
+  // default so the dashboards describe what was bought.
+  includeOverhead?: boolean;
+  // Aggregate by canonical product instead of the raw receipt name.
+  catalog?: Catalog;
+  filters?: LineFilters;
+  headcount?: Headcount;
+  budgets?: Budget[];
+  tags?: TagSettings;
+  topItemLimit?: number;
+}
+
+export interface Analysis {
+  lines: ReconciledLine[]; // the purchases every breakdown below was built from
+  categories: SpendShare[];
+  stores: SpendShare[];
+  months: MonthlySpend[];
+  topItems: ItemSummary[];
+  trips: Trip[];
+  savingsByStore: Savings[];
+  savingsByTrip: TripSavings[];
+  overhead: OverheadSummary;
+  stats: SpendingStats;
+  perPerson: PerPersonStats | null; // null until a headcount covers the data
+  budgets: BudgetSummary[];
+}
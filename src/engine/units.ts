@@ -0,0 +1,120 @@
+import type { BaseUnit, Measure, ReceiptLine, StoreUnitPrice, UnitPrice } from './types';
+
+interface UnitDefinition {
+  unit: BaseUnit;
+  factor: number; // base units per one of this unit
+}
+
+const POUNDS_PER_KG = 2.20462;
+
+const UNITS: Record<string, UnitDefinition> = {
+  lb: { unit: 'lb', factor: 1 },
+  lbs: { unit: 'lb', factor: 1 },
+  '#': { unit: 'lb', factor: 1 },
+  oz: { unit: 'lb', factor: 1 / 16 },
+  kg: { unit: 'lb', factor: POUNDS_PER_KG },
+  g: { unit: 'lb', factor: POUNDS_PER_KG / 1000 },
+  each: { unit: 'each', factor: 1 },
+  ea: { unit: 'each', factor: 1 },
+  pack: { unit: 'each', factor: 1 },
+  pk: { unit: 'each', factor: 1 },
+  ct: { unit: 'each', factor: 1 },
+  dozen: { unit: 'each', factor: 12 },
+  dz: { unit: 'each', factor: 12 }
+};
+
+export const parseUnit = (unit: string): UnitDefinition | null =>
+  UNITS[unit.trim().toLowerCase()] ?? null;
+
+export const isWeighedUnit = (unit: string): boolean =>
+  parseUnit(unit)?.unit === 'lb';
+
+// Sizes printed in the item name, as in "10LB BAKERS", "KS FR 2DZ" or
+// "12.9QT 4PK". Volumes such as quarts are left alone.
+const PACK_SIZE = /(?<![A-Z0-9.])(\d+(?:\.\d+)?)\s?(LBS?|#|OZ|KG|G|DZ|PK|CT)(?![A-Z])/i;
+
+export const packSize = (item: string): Measure | null => {
+  const match = item.match(PACK_SIZE);
+  if (!match) return null;
+  const definition = parseUnit(match[2]);
+  const amount = Number(match[1]);
+  if (!definition || !(amount > 0)) return null;
+  return { amount: amount * definition.factor, unit: definition.unit };
+};
+
+// How much a line bought, in pounds or items. A count of packaged goods is
+// turned into the weight or count on the package when the name says it.
+export const measureLine = (line: ReceiptLine): Measure | null => {
+  const definition = parseUnit(line.unit || 'each');
+  const quantity = line.quantity || 1;
+  if (!definition) return null;
+  if (definition.unit === 'lb') return { amount: quantity * definition.factor, unit: 'lb' };
+
+  const pack = packSize(line.rawItem ?? line.item);
+  if (!pack) return { amount: quantity * definition.factor, unit: 'each' };
+  return { amount: quantity * definition.factor * pack.amount, unit: pack.unit };
+};
+
+export const unitPrice = (line: ReceiptLine): UnitPrice | null => {
+  const measure = measureLine(line);
+  if (!measure || measure.amount <= 0 || line.total <= 0) return null;
+  return { price: line.total / measure.amount, unit: measure.unit };
+};
+
+interface UnitTotals {
+  spent: number;
+  amount: number;
+  purchases: number;
+}
+
+const totalsByUnit = (lines: ReceiptLine[]): Partial<Record<BaseUnit, UnitTotals>> => {
+  const totals: Partial<Record<BaseUnit, UnitTotals>> = {};
+  lines.forEach(line => {
+    const measure = measureLine(line);
+    if (!measure || measure.amount <= 0 || line.total <= 0) return;
+    const entry = totals[measure.unit] ?? (totals[measure.unit] = { spent: 0, amount: 0, purchases: 0 });
+    entry.spent += line.total;
+    entry.amount += measure.amount;
+    entry.purchases++;
+  });
+  return totals;
+};
+
+// The unit most of the money went to, so an item bought both loose and by the
+// bag is priced the way it is usually bought.
+export const dominantUnit = (lines: ReceiptLine[]): BaseUnit | null => {
+  const entries = Object.entries(totalsByUnit(lines)) as [BaseUnit, UnitTotals][];
+  if (entries.length === 0) return null;
+  return entries.reduce((best, entry) => entry[1].spent > best[1].spent ? entry : best)[0];
+};
+
+// Spend-weighted price per base unit: everything paid divided by everything
+// bought, counting only lines measured in `unit`.
+export const averageUnitPrice = (lines: ReceiptLine[], unit = dominantUnit(lines)): UnitPrice | null => {
+  if (!unit) return null;
+  const entry = totalsByUnit(lines)[unit];
+  if (!entry || entry.amount <= 0) return null;
+  return { price: entry.spent / entry.amount, unit };
+};
+
+// What the same item costs per pound or per item at each store, cheapest
+// first within each unit.
+export const compareStoreUnitPrices = (lines: ReceiptLine[]): StoreUnitPrice[] => {
+  const byStore: Record<string, ReceiptLine[]> = {};
+  lines.forEach(line => {
+    if (!byStore[line.store]) byStore[line.store] = [];
+    byStore[line.store].push(line);
+  });
+
+  return Object.entries(byStore)
+    .flatMap(([store, storeLines]) =>
+      Object.entries(totalsByUnit(storeLines)).map(([unit, entry]) => ({
+        store,
+        unit: unit as BaseUnit,
+        price: entry.spent / entry.amount,
+        amount: entry.amount,
+        purchases: entry.purchases
+      }))
+    )
+    .sort((a, b) => a.unit.localeCompare(b.unit) || a.price - b.price);
+};
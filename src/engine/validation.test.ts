@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { RECEIPT_FIELDS, guessMapping } from './columns';
+import { importCsv, readCsvRecords } from './csv';
+import { validateRecord } from './validation';
+
+// The middle row ends in a stray comma, so it is one cell longer than the rest.
+const WITH_LONG_ROW = [
+  '2025-03-22,WinCo Foods,Produce,CELERY,2,each,1.28,2.56',
+  '2025-03-22,WinCo Foods,Produce,KALE,2,each,0.98,1.96,',
+  '2025-03-22,WinCo Foods,Other,SALES TAX,1,each,0.72,0.72'
+].join('\n');
+const mapping = guessMapping(readCsvRecords(WITH_LONG_ROW).map(record => record.cells));
+
+describe('validateRecord', () => {
+  it('reads every row of a file with one over-long row', () => {
+    const result = importCsv(WITH_LONG_ROW, mapping);
+    expect(mapping.fields).toEqual([...RECEIPT_FIELDS, null]);
+    expect(result.issues).toEqual([]);
+    expect(result.lines.map(line => line.item)).toEqual(['CELERY', 'KALE', 'SALES TAX']);
+  });
+
+  it('still rejects a row missing a mapped column', () => {
+    const [record] = readCsvRecords('2025-03-22,WinCo Foods,Produce,CELERY,2,each,1.28');
+    const { line, issues } = validateRecord(record, mapping);
+    expect(line).toBeNull();
+    expect(issues.map(entry => [entry.reason, entry.message])).toEqual([['short-row', 'Expected 8 columns but found 7.']]);
+  });
+});
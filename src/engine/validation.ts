@@ -0,0 +1,174 @@
+import type { ColumnMapping, ReceiptField } from './columns';
+import type { ReceiptLine } from './types';
+import { isWeighedUnit, parseUnit } from './units';
+
+export type ImportIssueReason =
+  | 'short-row'
+  | 'missing-item'
+  | 'unparsable-date'
+  | 'unparsable-amount'
+  | 'total-mismatch'
+  | 'unknown-unit'
+  | 'stray-quote';
+
+// Rejected rows are left out of the dataset; flagged rows are imported as-is.
+export type ImportIssueSeverity = 'rejected' | 'flagged';
+
+export interface ImportIssue {
+  lineNumber: number;
+  raw: string;
+  reason: ImportIssueReason;
+  severity: ImportIssueSeverity;
+  message: string;
+}
+
+export interface CsvRecord {
+  lineNumber: number; // 1-based line in the source file
+  raw: string;
+  cells: string[];
+  malformed: boolean; // the CSV parser could not make sense of the quoting
+}
+
+export const ISSUE_LABELS: Record<ImportIssueReason, string> = {
+  'short-row': 'Short row',
+  'missing-item': 'Missing item',
+  'unparsable-date': 'Unparsable date',
+  'unparsable-amount': 'Unparsable amount',
+  'total-mismatch': 'Total mismatch',
+  'unknown-unit': 'Unknown unit',
+  'stray-quote': 'Stray quote'
+};
+
+// Receipts round each line to the cent, so allow a cent of drift per line.
+// Weighed lines print a rounded weight, which can throw the product off by a
+// little more than that.
+const TOTAL_TOLERANCE = 0.011;
+const WEIGHED_TOLERANCE = 0.02;
+
+// Whether quantity × price comes to the printed total, within rounding.
+export const totalMatches = ({ quantity, unit, price, total }: Pick<ReceiptLine, 'quantity' | 'unit' | 'price' | 'total'>): boolean => {
+  const tolerance = isWeighedUnit(unit) ? Math.max(TOTAL_TOLERANCE, Math.abs(total) * WEIGHED_TOLERANCE) : TOTAL_TOLERANCE;
+  return Math.abs(quantity * price - total) <= tolerance;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Accepts YYYY-MM-DD as well as the US M/D/YYYY and M/D/YY forms that
+// spreadsheet exports tend to produce, and returns YYYY-MM-DD.
+export const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const parseAmount = (value: string | undefined): number => {
+  if (value === undefined || value.trim() === '') return NaN;
+  return Number(value.trim().replace(/^(-?)\$/, '$1'));
+};
+
+const issue = (record: CsvRecord, reason: ImportIssueReason, severity: ImportIssueSeverity, message: string): ImportIssue => ({
+  lineNumber: record.lineNumber,
+  raw: record.raw,
+  reason,
+  severity,
+  message
+});
+
+// Turns one CSV record into a receipt line, explaining why it was rejected
+// or what looks off about it.
+export const validateRecord = (
+  record: CsvRecord,
+  mapping: ColumnMapping
+): { line: ReceiptLine | null; issues: ImportIssue[] } => {
+  const issues: ImportIssue[] = [];
+  const { cells } = record;
+
+  if (record.malformed) {
+    issues.push(issue(record, 'stray-quote', 'flagged', 'Quotes in this row are unbalanced; check how the fields were split.'));
+  } else if (cells.some(cell => cell.includes('"')) && !record.raw.includes('""')) {
+    issues.push(issue(record, 'stray-quote', 'flagged', 'An unescaped quote (e.g. an inch mark) was kept as part of the text.'));
+  }
+
+  // Only the columns read into a field have to be there; unmapped ones past
+  // the last of them may be missing.
+  const width = mapping.fields.reduce((last, field, index) => field ? index + 1 : last, 0);
+  if (cells.length < width) {
+    issues.push(issue(record, 'short-row', 'rejected', `Expected ${width} columns but found ${cells.length}.`));
+    return { line: null, issues };
+  }
+
+  const has = (field: ReceiptField) => mapping.fields.includes(field);
+  const cell = (field: ReceiptField): string => {
+    const index = mapping.fields.indexOf(field);
+    return index === -1 ? '' : (cells[index] ?? '').trim();
+  };
+
+  const date = normalizeDate(cell('date'));
+  if (!date) {
+    issues.push(issue(record, 'unparsable-date', 'rejected', `"${cell('date')}" is not a date.`));
+  }
+
+  const item = cell('item');
+  if (!item) {
+    issues.push(issue(record, 'missing-item', 'rejected', 'The item name is empty.'));
+  }
+
+  const total = parseAmount(cell('total'));
+  const quantity = has('quantity') ? parseAmount(cell('quantity')) : 1;
+  const price = has('price') ? parseAmount(cell('price')) : total / (quantity || 1);
+  const amounts: [string, number][] = [['Total', total], ['Quantity', quantity], ['Price', price]];
+  amounts.forEach(([label, value]) => {
+    if (Number.isNaN(value)) {
+      issues.push(issue(record, 'unparsable-amount', 'rejected', `${label} is not a number.`));
+    }
+  });
+
+  if (!date || !item || amounts.some(([, value]) => Number.isNaN(value))) {
+    return { line: null, issues };
+  }
+
+  const unit = has('unit') ? cell('unit') : 'each';
+  if (has('quantity') && has('price') && !totalMatches({ quantity, unit, price, total })) {
+    issues.push(issue(
+      record,
+      'total-mismatch',
+      'flagged',
+      `${quantity} × ${price.toFixed(2)} = ${(quantity * price).toFixed(2)}, but the total is ${total.toFixed(2)}.`
+    ));
+  }
+
+  if (!parseUnit(unit)) {
+    issues.push(issue(record, 'unknown-unit', 'flagged', `"${unit}" is not a unit we recognize.`));
+  }
+
+  return {
+    line: {
+      date,
+      store: cell('store'),
+      category: cell('category'),
+      item,
+      quantity,
+      unit,
+      price,
+      total,
+      lineNumber: record.lineNumber
+    },
+    issues
+  };
+};
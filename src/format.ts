@@ -0,0 +1,18 @@
+import type { UnitPrice } from './engine';
+
+export const formatCurrency = (value: number): string => {
+  return `$${value.toFixed(2)}`;
+};
+
+export const formatPercentage = (value: number): string => {
+  return `${value.toFixed(1)}%`;
+};
+
+// A fractional change as a signed percentage: 0.125 becomes "+12.5%".
+export const formatPercentChange = (change: number): string => {
+  return `${change > 0 ? '+' : ''}${formatPercentage(change * 100)}`;
+};
+
+export const formatUnitPrice = ({ price, unit }: UnitPrice): string => {
+  return `${formatCurrency(price)}/${unit === 'lb' ? 'lb' : 'ea'}`;
+};
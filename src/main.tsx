@@ -1,10 +1,10 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import GroceryAnalysisFreeside2025 from './GroceryAnalysisFreeside2025.tsx'
+import App from './App.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <GroceryAnalysisFreeside2025 />
+    <App />
   </StrictMode>,
 )
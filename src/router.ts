@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { LineFilters, TimeGranularity } from './engine';
+
+export type DashboardView =
+  | 'overview'
+  | 'trips'
+  | 'items'
+  | 'stores'
+  | 'search'
+  | 'edit'
+  | 'products'
+  | 'people'
+  | 'ledger'
+  | 'shopping'
+  | 'compare'
+  | 'import';
+
+// Everything needed to reopen the dashboard exactly where someone was.
+export interface Route {
+  dataset: string;
+  view: DashboardView;
+  item?: string; // item detail, under the items view
+  filters: LineFilters;
+  granularity: TimeGranularity;
+}
+
+const VIEWS: DashboardView[] = ['overview', 'trips', 'items', 'stores', 'search', 'edit', 'products', 'people', 'ledger', 'shopping', 'compare', 'import'];
+const GRANULARITIES: TimeGranularity[] = ['trip', 'day', 'week', 'month'];
+export const DEFAULT_GRANULARITY: TimeGranularity = 'week';
+
+const decode = (part: string) => {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+};
+
+const isView = (value: string): value is DashboardView => (VIEWS as string[]).includes(value);
+const isGranularity = (value: string): value is TimeGranularity => (GRANULARITIES as string[]).includes(value);
+
+// Routes live in the hash, so a link opens the right view on any static host:
+// #/<dataset>/<view>[/<item>]?from=&to=&store=&category=&tag=&q=&by=
+export const parseRoute = (hash: string, fallbackDataset: string): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split(/\?(.*)/);
+  const [dataset = '', view = '', item = ''] = path.split('/').map(decode);
+  const params = new URLSearchParams(query);
+  const stores = params.getAll('store');
+  const categories = params.getAll('category');
+  const tags = params.getAll('tag');
+  const granularity = params.get('by') ?? '';
+
+  return {
+    dataset: dataset || fallbackDataset,
+    view: isView(view) ? view : 'overview',
+    item: view === 'items' && item ? item : undefined,
+    filters: {
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+      stores: stores.length > 0 ? stores : undefined,
+      categories: categories.length > 0 ? categories : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      item: params.get('q') ?? undefined
+    },
+    granularity: isGranularity(granularity) ? granularity : DEFAULT_GRANULARITY
+  };
+};
+
+export const formatRoute = (route: Route): string => {
+  const params = new URLSearchParams();
+  const { from, to, stores, categories, tags, item } = route.filters;
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  stores?.forEach(store => params.append('store', store));
+  categories?.forEach(category => params.append('category', category));
+  tags?.forEach(tag => params.append('tag', tag));
+  if (item?.trim()) params.set('q', item);
+  if (route.granularity !== DEFAULT_GRANULARITY) params.set('by', route.granularity);
+
+  const path = [route.dataset, route.view, ...(route.item ? [route.item] : [])].map(encodeURIComponent).join('/');
+  const query = params.toString();
+  return `#/${path}${query ? `?${query}` : ''}`;
+};
+
+// The current route, kept in step with the address bar. Pass `replace` for
+// changes too small to deserve their own back-button step, like typing.
+export const useRoute = (fallbackDataset: string) => {
+  const [hash, setHash] = useState(() => window.location.hash);
+
+  useEffect(() => {
+    const sync = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', sync);
+    window.addEventListener('popstate', sync);
+    return () => {
+      window.removeEventListener('hashchange', sync);
+      window.removeEventListener('popstate', sync);
+    };
+  }, []);
+
+  const route = useMemo(() => parseRoute(hash, fallbackDataset), [hash, fallbackDataset]);
+
+  const navigate = useCallback((next: Route, { replace = false } = {}) => {
+    const target = formatRoute(next);
+    if (replace) window.history.replaceState(null, '', target);
+    else window.history.pushState(null, '', target);
+    setHash(target);
+  }, []);
+
+  return [route, navigate] as const;
+};
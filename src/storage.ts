@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+
+const PREFIX = 'grocery-analysis:';
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Error reading ${key} from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJson = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing ${key} to storage:`, error);
+  }
+};
+
+// useState that survives a page reload by mirroring itself into localStorage.
+export const usePersistentState = <T>(key: string, initial: T) => {
+  const [value, setValue] = useState<T>(() => loadJson(key, initial));
+
+  useEffect(() => {
+    saveJson(key, value);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,32 @@
+import { useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+// Undo and redo for a value kept elsewhere, such as persistent state. The
+// history lasts for the visit; the value itself is saved as usual.
+export const useUndoable = <T>(value: T, setValue: (value: T) => void) => {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const change = (next: T) => {
+    setPast([...past, value].slice(-HISTORY_LIMIT));
+    setFuture([]);
+    setValue(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future]);
+    setValue(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast([...past, value]);
+    setFuture(future.slice(1));
+    setValue(future[0]);
+  };
+
+  return { change, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 };
+};
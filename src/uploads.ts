@@ -0,0 +1,85 @@
+import type { ColumnMapping } from './engine';
+
+// Receipt files uploaded into a dataset, kept in IndexedDB because a season
+// of CSVs can outgrow what localStorage allows.
+export interface StoredFile {
+  id: string;
+  fileName: string;
+  csvData: string;
+  mapping: ColumnMapping;
+  importedAt: string;
+  duplicates?: string[]; // line keys left out when the file was merged
+}
+
+export interface StoredDataset {
+  id: string;
+  name: string;
+  files: StoredFile[];
+  createdAt: string;
+}
+
+const DATABASE = 'grocery-analysis';
+const STORE = 'datasets';
+
+export const newId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DATABASE, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    database = settle(request);
+  }
+  return database;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return settle(request(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const listStoredDatasets = (): Promise<StoredDataset[]> =>
+  withStore('readonly', store => store.getAll() as IDBRequest<StoredDataset[]>);
+
+export const getStoredDataset = async (id: string): Promise<StoredDataset | null> =>
+  (await withStore('readonly', store => store.get(id) as IDBRequest<StoredDataset | undefined>)) ?? null;
+
+export const saveStoredDataset = async (dataset: StoredDataset): Promise<void> => {
+  await withStore('readwrite', store => store.put(dataset));
+};
+
+export const deleteStoredDataset = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Reads, changes and writes back one dataset's record, creating it on first
+// use so built-in datasets can take uploads too. The read and the write share
+// one transaction, so updates started back to back apply one after the other
+// instead of both starting from the same record.
+export const updateStoredDataset = async (
+  id: string,
+  name: string,
+  change: (dataset: StoredDataset) => StoredDataset
+): Promise<StoredDataset> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const request = store.get(id) as IDBRequest<StoredDataset | undefined>;
+    let next: StoredDataset;
+    request.onsuccess = () => {
+      next = change(request.result ?? { id, name, files: [], createdAt: new Date().toISOString() });
+      store.put(next);
+    };
+    transaction.oncomplete = () => resolve(next);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};